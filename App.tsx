@@ -3,14 +3,41 @@ import { Type } from '@google/genai';
 import { useLiveSession } from './hooks/useLiveSession';
 import { Visualizer } from './components/Visualizer';
 import { ToolsPanel } from './components/ToolsPanel';
+import { MixerPanel } from './components/MixerPanel';
+import { RoiSelector } from './components/RoiSelector';
+import { RedactionOverlay } from './components/RedactionOverlay';
+import { LiveCaptions } from './components/LiveCaptions';
+import { RedactionStyle, createRedactionMask } from './utils/redaction';
 import { Logger } from './components/Logger';
 import { SettingsModal } from './components/SettingsModal';
 import { LogEntry, ToolDefinition, VideoSourceType, StreamConfig } from './types';
+import { loadSessionRecording } from './utils/sessionRecorder';
+import { formatUsd } from './utils/usageTracker';
+import { resolveMixer } from './utils/mixer';
+import { supportsOutputSelection } from './utils/audioOutput';
+import { resolveTtsProviderType } from './utils/ttsProvider';
+
+// Camera and screen toggle independently; both on is the composited CAMERA_SCREEN mode
+const videoSourceFor = (camera: boolean, screen: boolean): VideoSourceType =>
+  camera && screen ? VideoSourceType.CAMERA_SCREEN
+  : camera ? VideoSourceType.CAMERA
+  : screen ? VideoSourceType.SCREEN
+  : VideoSourceType.NONE;
+
+const PIP_PREVIEW_POSITION: Record<NonNullable<StreamConfig['pipPosition']>, string> = {
+  'top-left': 'top-20 left-4',
+  'top-right': 'top-4 right-4',
+  'bottom-left': 'bottom-4 left-4',
+  'bottom-right': 'bottom-4 right-4',
+};
 
 export default function App() {
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [activeTab, setActiveTab] = useState<'logs' | 'tools'>('logs');
+  const [activeTab, setActiveTab] = useState<'logs' | 'tools' | 'mixer'>('logs');
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isEditingRoi, setIsEditingRoi] = useState(false);
+  const [isEditingMasks, setIsEditingMasks] = useState(false);
+  const [maskStyle, setMaskStyle] = useState<RedactionStyle>('blur');
   
   // State for Text Injection
   const [textInput, setTextInput] = useState("");
@@ -25,14 +52,22 @@ export default function App() {
     useFirstGreeting: true,
     firstGreeting: "Yo! I'm ready. What are we watching?",
     enableDucking: true,
+    audioChunkMs: 40,
     commentaryInterval: 30, // Default 30s interval
-    useCartesia: false,
+    autoReconnect: true,
+    maxReconnectAttempts: 6,
+    transport: 'gemini',
+    mockServerUrl: 'ws://localhost:8765',
+    ttsProvider: 'gemini',
     cartesiaApiKey: '',
     cartesiaVoiceId: '',
-    useTextMode: false, // Cost optimization: TEXT mode + Cartesia is 44% cheaper than AUDIO mode
+    useTextMode: false, // Cost optimization: TEXT mode + an external TTS is 44% cheaper than AUDIO mode
   });
 
   const videoRef = useRef<HTMLVideoElement>(null);
+  const pipVideoRef = useRef<HTMLVideoElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const mediaFileInputRef = useRef<HTMLInputElement>(null);
   const videoControlRef = useRef<(type: VideoSourceType) => Promise<void>>(null);
   const sessionControlRef = useRef<{ connect: () => Promise<void>; disconnect: () => Promise<void>; isConnected: boolean }>({
      connect: async () => {},
@@ -123,6 +158,7 @@ export default function App() {
 
   const {
     isConnected,
+    isReconnecting,
     isMuted,
     isOutputMuted,
     isAiSpeaking,
@@ -134,6 +170,9 @@ export default function App() {
     currentVideoSource,
     audioDevices,
     currentAudioDeviceId,
+    outputDevices,
+    currentOutputDeviceId,
+    monitorOutputDeviceId,
     connect,
     disconnect,
     setVideoSource,
@@ -141,14 +180,52 @@ export default function App() {
     toggleOutputMute,
     toggleScreenAudio,
     changeAudioDevice,
-    sendText
+    changeOutputDevice,
+    changeMonitorDevice,
+    sendText,
+    isRecordingSession,
+    isReplaying,
+    startSessionRecording,
+    stopSessionRecording,
+    replaySession,
+    isRecordingConversation,
+    startConversationRecording,
+    stopConversationRecording,
+    usage,
+    isMicGateOpen,
+    isPushToTalkHeld,
+    playbackStats,
+    frameStats,
+    regionOfInterest,
+    setRegionOfInterest,
+    redactionMasks,
+    setRedactionMasks,
+    isVideoPaused,
+    setVideoPaused,
+    caption
   } = useLiveSession({
     config,
     tools,
     onLog: handleLog,
-    videoElementRef: videoRef
+    videoElementRef: videoRef,
+    pipVideoElementRef: pipVideoRef
   });
 
+  const hasCamera = currentVideoSource === VideoSourceType.CAMERA || currentVideoSource === VideoSourceType.CAMERA_SCREEN;
+  const hasScreen = currentVideoSource === VideoSourceType.SCREEN || currentVideoSource === VideoSourceType.CAMERA_SCREEN;
+  const isFileSource = currentVideoSource === VideoSourceType.FILE;
+  // A media file's audio goes through the screen-audio chain
+  const hasScreenAudio = hasScreen || isFileSource;
+
+  // A crop only applies to screen shares
+  useEffect(() => {
+    if (!hasScreen) setIsEditingRoi(false);
+  }, [hasScreen]);
+
+  useEffect(() => {
+    if (currentVideoSource === VideoSourceType.NONE) setIsEditingMasks(false);
+  }, [currentVideoSource]);
+
   // Keep the ref in sync with the latest setVideoSource function
   useEffect(() => {
     // @ts-ignore
@@ -184,6 +261,24 @@ export default function App() {
       }
   }, [config.voiceName, config.persona, isConnected, connect, disconnect]);
 
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const recording = await loadSessionRecording(file);
+      await replaySession(recording);
+    } catch (err: any) {
+      handleLog({ timestamp: new Date(), type: 'system', message: `Failed to load session file: ${err.message}` });
+    }
+  };
+
+  const handleMediaFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) setVideoSource(VideoSourceType.FILE, file);
+  };
+
   const handlePoke = () => {
     sendText("[POKE] Look at the screen and comment immediately.");
   };
@@ -246,10 +341,43 @@ export default function App() {
                 </div>
              </div>
 
-             <div className={`px-3 py-1 rounded-full text-xs font-medium border ${isConnected ? 'bg-green-500/10 border-green-500/50 text-green-400' : 'bg-red-500/10 border-red-500/50 text-red-400'}`}>
-                {isConnected ? 'LIVE' : 'OFFLINE'}
+             <div className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                isConnected ? 'bg-green-500/10 border-green-500/50 text-green-400' :
+                isReconnecting ? 'bg-amber-500/10 border-amber-500/50 text-amber-400 animate-pulse' :
+                'bg-red-500/10 border-red-500/50 text-red-400'
+             }`}>
+                {isConnected ? (isReplaying ? 'REPLAY' : 'LIVE') : (isReconnecting ? 'RECONNECTING' : 'OFFLINE')}
              </div>
 
+             {/* Live Cost Meter */}
+             {(isConnected || isReconnecting || usage.totalTokens > 0) && (
+               <div
+                  className="px-3 py-1 rounded-full text-xs font-mono border bg-white/5 border-white/10 text-gray-300 flex items-center gap-2"
+                  title={`Tokens in: ${usage.tokens.audioIn} audio, ${usage.tokens.videoIn} video, ${usage.tokens.textIn} text\nTokens out: ${usage.tokens.audioOut} audio, ${usage.tokens.textOut} text`}
+               >
+                  <span className="text-white">{formatUsd(usage.cost)}</span>
+                  <span className="text-gray-500">
+                    {usage.alternateMode} {usage.alternateCost < usage.cost ? '↓' : '↑'} {formatUsd(usage.alternateCost)}
+                  </span>
+               </div>
+             )}
+
+             {/* Session Capture Toggle */}
+             {(isConnected || isRecordingSession) && !isReplaying && (
+               <button
+                  onClick={isRecordingSession ? stopSessionRecording : startSessionRecording}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border flex items-center gap-1.5 transition-colors ${
+                    isRecordingSession
+                      ? 'bg-red-500/20 border-red-500/50 text-red-400'
+                      : 'bg-white/5 border-white/10 text-gray-400 hover:text-white hover:border-white/30'
+                  }`}
+                  title={isRecordingSession ? "Stop capture and save session file" : "Capture session traffic for replay"}
+               >
+                  <span className={`w-2 h-2 rounded-full ${isRecordingSession ? 'bg-red-500 animate-pulse' : 'bg-gray-500'}`}></span>
+                  {isRecordingSession ? 'CAPTURING' : 'CAPTURE'}
+               </button>
+             )}
+
              {/* Settings Button */}
              <button
                 onClick={() => setIsSettingsOpen(true)}
@@ -267,7 +395,7 @@ export default function App() {
         {/* Main Visual Area */}
         <div className={`flex-1 relative bg-[#151515] rounded-2xl border overflow-hidden shadow-2xl transition-all duration-500 ${
             currentVideoSource === VideoSourceType.CAMERA ? 'border-gemini-blue/50 shadow-[0_0_30px_rgba(77,170,252,0.15)]' :
-            currentVideoSource === VideoSourceType.SCREEN ? 'border-gemini-purple/50 shadow-[0_0_30px_rgba(155,138,251,0.15)]' :
+            hasScreen ? 'border-gemini-purple/50 shadow-[0_0_30px_rgba(155,138,251,0.15)]' :
             'border-white/5'
         }`}>
            
@@ -276,9 +404,57 @@ export default function App() {
               ref={videoRef} 
               autoPlay 
               muted 
+              controls={isFileSource}
               className={`absolute inset-0 w-full h-full object-contain bg-black transition-opacity duration-500 ${currentVideoSource !== VideoSourceType.NONE ? 'opacity-100' : 'opacity-0'}`}
            />
 
+           {/* Webcam Inset (preview of the composited CAMERA_SCREEN frame) */}
+           <video
+              ref={pipVideoRef}
+              autoPlay
+              muted
+              playsInline
+              className={`absolute z-10 rounded-lg border-2 border-white/80 shadow-lg bg-black object-cover pointer-events-none ${PIP_PREVIEW_POSITION[config.pipPosition || 'bottom-right']} ${currentVideoSource === VideoSourceType.CAMERA_SCREEN ? 'block' : 'hidden'}`}
+              style={{ width: `${Math.round((config.pipScale || 0.25) * 100)}%` }}
+           />
+
+           {/* Region of Interest (screen share only) */}
+           {hasScreen && (
+              <RoiSelector
+                 videoRef={videoRef}
+                 roi={regionOfInterest}
+                 isEditing={isEditingRoi}
+                 onChange={(roi) => {
+                    setRegionOfInterest(roi);
+                    setIsEditingRoi(false);
+                 }}
+              />
+           )}
+
+           {/* Privacy Masks (applied to every frame before it is encoded) */}
+           {currentVideoSource !== VideoSourceType.NONE && (
+              <RedactionOverlay
+                 videoRef={videoRef}
+                 masks={redactionMasks}
+                 isEditing={isEditingMasks}
+                 onAdd={(region) => setRedactionMasks([...redactionMasks, createRedactionMask(region, maskStyle)])}
+                 onRemove={(id) => setRedactionMasks(redactionMasks.filter(mask => mask.id !== id))}
+              />
+           )}
+
+           {/* Paused Feed */}
+           {currentVideoSource !== VideoSourceType.NONE && isVideoPaused && (
+              <div className="absolute inset-0 flex items-center justify-center bg-black/70 backdrop-blur-sm pointer-events-none">
+                 <div className="flex flex-col items-center gap-2 text-center">
+                    <span className="text-sm font-bold tracking-wider uppercase text-white">Video Feed Paused</span>
+                    <span className="text-xs text-gray-400">No frames are sent. Audio is still live.</span>
+                 </div>
+              </div>
+           )}
+
+           {/* Live Captions of the AI's speech */}
+           {(config.liveCaptions ?? true) && <LiveCaptions caption={caption} raised={isFileSource} />}
+
            {/* Fallback Visualizer when no video */}
            {currentVideoSource === VideoSourceType.NONE && (
               <div className="absolute inset-0 flex items-center justify-center p-12">
@@ -300,12 +476,94 @@ export default function App() {
                 <div className="flex flex-col">
                    <span className="text-[10px] uppercase opacity-70 leading-none mb-0.5">Live Feed</span>
                    <span className="leading-none font-bold">
-                       {currentVideoSource === VideoSourceType.CAMERA ? 'Webcam Source' : 'Screen Share'}
+                       {currentVideoSource === VideoSourceType.CAMERA ? 'Webcam Source'
+                         : currentVideoSource === VideoSourceType.CAMERA_SCREEN ? 'Screen + Webcam'
+                         : isFileSource ? 'Local File'
+                         : 'Screen Share'}
                    </span>
                 </div>
 
+                {/* Frame Sampling Stats */}
+                {isConnected && (
+                   <div
+                      className="ml-2 pl-3 border-l border-white/20 flex flex-col font-mono"
+                      title={`Frames skipped as unchanged (last diff ${(frameStats.lastDiff * 100).toFixed(1)}%)`}
+                   >
+                      <span className="text-[10px] leading-none mb-0.5 text-gray-300">
+                         {frameStats.sent} sent
+                         {frameStats.isBursting && <span className="ml-1 text-amber-400 font-bold">BURST</span>}
+                      </span>
+                      <span className="text-[10px] leading-none text-gray-500">{frameStats.skipped} skipped</span>
+                   </div>
+                )}
+
+                {/* Region of Interest Controls */}
+                {hasScreen && (
+                   <div className="ml-2 pl-3 border-l border-white/20 flex items-center gap-1.5">
+                      <button
+                         onClick={() => {
+                            setIsEditingMasks(false);
+                            setIsEditingRoi(prev => !prev);
+                         }}
+                         className={`px-2 py-0.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-colors ${isEditingRoi ? 'bg-amber-400 text-black' : 'bg-white/10 hover:bg-white/20 text-white'}`}
+                         title="Drag a rectangle over the preview to choose what the model sees"
+                      >
+                         {isEditingRoi ? 'Cancel' : 'Crop'}
+                      </button>
+                      {regionOfInterest && !isEditingRoi && (
+                         <button
+                            onClick={() => setRegionOfInterest(null)}
+                            className="px-2 py-0.5 rounded-full text-[10px] font-bold tracking-wider uppercase bg-white/10 hover:bg-white/20 text-white transition-colors"
+                            title="Send the whole screen share again"
+                         >
+                            Full
+                         </button>
+                      )}
+                   </div>
+                )}
+
+                {/* Privacy Controls */}
+                <div className="ml-2 pl-3 border-l border-white/20 flex items-center gap-1.5">
+                   <button
+                      onClick={() => {
+                         setIsEditingRoi(false);
+                         setIsEditingMasks(prev => !prev);
+                      }}
+                      className={`px-2 py-0.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-colors ${isEditingMasks ? 'bg-red-500 text-white' : 'bg-white/10 hover:bg-white/20 text-white'}`}
+                      title="Drag rectangles over the preview to hide them from the model"
+                   >
+                      {isEditingMasks ? 'Done' : `Redact${redactionMasks.length > 0 ? ` (${redactionMasks.length})` : ''}`}
+                   </button>
+                   {isEditingMasks && (
+                      <>
+                         <button
+                            onClick={() => setMaskStyle(prev => prev === 'blur' ? 'fill' : 'blur')}
+                            className="px-2 py-0.5 rounded-full text-[10px] font-bold tracking-wider uppercase bg-white/10 hover:bg-white/20 text-white transition-colors"
+                            title="Style for new masks"
+                         >
+                            {maskStyle === 'blur' ? 'Blur' : 'Fill'}
+                         </button>
+                         {redactionMasks.length > 0 && (
+                            <button
+                               onClick={() => setRedactionMasks([])}
+                               className="px-2 py-0.5 rounded-full text-[10px] font-bold tracking-wider uppercase bg-white/10 hover:bg-white/20 text-white transition-colors"
+                            >
+                               Clear
+                            </button>
+                         )}
+                      </>
+                   )}
+                   <button
+                      onClick={() => setVideoPaused(!isVideoPaused)}
+                      className={`px-2 py-0.5 rounded-full text-[10px] font-bold tracking-wider uppercase transition-colors ${isVideoPaused ? 'bg-amber-400 text-black' : 'bg-white/10 hover:bg-white/20 text-white'}`}
+                      title={isVideoPaused ? 'Resume sending frames' : 'Stop sending frames; the conversation keeps going'}
+                   >
+                      {isVideoPaused ? 'Resume' : 'Pause'}
+                   </button>
+                </div>
+
                 {/* Ducking Indicator */}
-                {currentVideoSource === VideoSourceType.SCREEN && isScreenAudioShared && isAiSpeaking && (
+                {hasScreenAudio && isScreenAudioShared && isAiSpeaking && (
                    <div className="ml-2 pl-3 border-l border-white/20 flex items-center gap-2 animate-pulse text-gemini-blue">
                       <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
@@ -320,7 +578,8 @@ export default function App() {
 
         {/* Control Bar */}
         <div className="h-20 bg-[#151515] rounded-2xl border border-white/5 flex items-center justify-center gap-4 px-6 relative overflow-hidden">
-            {!isConnected ? (
+            {!isConnected && !isReconnecting ? (
+              <>
               <button 
                 onClick={connect}
                 className="group relative px-8 py-3 bg-white text-black rounded-full font-bold hover:bg-gray-200 transition-all active:scale-95 flex items-center gap-2"
@@ -328,20 +587,36 @@ export default function App() {
                 <span className="w-2 h-2 rounded-full bg-gemini-blue animate-pulse-fast"></span>
                 Start Conversation
               </button>
+              <button 
+                onClick={() => replayInputRef.current?.click()}
+                className="px-5 py-3 bg-white/5 text-gray-300 rounded-full text-sm font-semibold hover:bg-white/10 hover:text-white transition-all border border-white/10"
+                title="Replay a captured session file"
+              >
+                Replay Session
+              </button>
+              <input ref={replayInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleReplayFile} />
+              </>
             ) : (
               <>
                  <div className="flex items-center gap-2">
                     <button 
                       onClick={toggleMute}
                       className={`relative p-4 rounded-full transition-all overflow-hidden ${isMuted ? 'bg-red-500/20 text-red-400' : 'bg-white/5 hover:bg-white/10 text-white'}`}
-                      title={isMuted ? "Unmute Mic" : "Mute Mic"}
+                      title={isMuted ? "Unmute Mic" : (config.micMode === 'pushToTalk' ? `Mute Mic (hold ${config.pushToTalkKey || 'Space'} to talk)` : "Mute Mic")}
                     >
-                      {/* Volume Indicator Overlay */}
+                      {/* Volume Indicator Overlay (grey while VAD / push-to-talk is holding the mic back) */}
                       {!isMuted && (
-                          <div className="absolute bottom-0 left-0 w-full bg-green-500/30 transition-all duration-100 ease-out pointer-events-none"
+                          <div className={`absolute bottom-0 left-0 w-full transition-all duration-100 ease-out pointer-events-none ${isMicGateOpen ? 'bg-green-500/30' : 'bg-gray-500/20'}`}
                                style={{ height: `${Math.min(100, volume * 400)}%` }}
                           />
                       )}
+
+                      {/* Mic Gate Badge */}
+                      {!isMuted && config.micMode && config.micMode !== 'continuous' && (
+                          <span className={`absolute top-0.5 left-1/2 -translate-x-1/2 z-10 text-[7px] font-bold tracking-wider pointer-events-none ${isMicGateOpen ? 'text-green-400' : 'text-gray-500'}`}>
+                              {config.micMode === 'vad' ? 'VAD' : (isPushToTalkHeld ? 'TALK' : 'PTT')}
+                          </span>
+                      )}
                       
                       <div className="relative z-10">
                           {isMuted ? (
@@ -381,8 +656,8 @@ export default function App() {
                      <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" clipRule="evenodd" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2" /></svg>
                    ) : (
                      <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
-                        {/* Cartesia Indicator */}
-                        {config.useCartesia && (
+                        {/* External TTS Indicator */}
+                        {resolveTtsProviderType(config) !== 'gemini' && (
                           <span className="absolute top-2 right-2 flex h-2 w-2">
                             <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-purple-400 opacity-75"></span>
                             <span className="relative inline-flex rounded-full h-2 w-2 bg-purple-500"></span>
@@ -392,23 +667,55 @@ export default function App() {
                    )}
                  </button>
 
+                 {/* Output Routing: AI speech device + optional monitor copy */}
+                 {supportsOutputSelection() && (
+                    <div className="flex flex-col gap-1 ml-2">
+                        <select 
+                            value={currentOutputDeviceId}
+                            onChange={(e) => changeOutputDevice(e.target.value)}
+                            title="AI speech output"
+                            className="bg-black/20 text-white text-[10px] py-1 px-2 rounded border border-white/10 outline-none hover:border-white/30 transition-colors w-32 truncate"
+                        >
+                            <option value="" className="bg-dark-panel">Default Output</option>
+                            {outputDevices.filter(d => d.deviceId !== 'default').map((device, idx) => (
+                                <option key={device.deviceId || idx} value={device.deviceId} className="bg-dark-panel">
+                                    {device.label || `Speaker ${idx + 1}`}
+                                </option>
+                            ))}
+                        </select>
+                        <select 
+                            value={monitorOutputDeviceId}
+                            onChange={(e) => changeMonitorDevice(e.target.value)}
+                            title="Monitor: also play AI speech here"
+                            className="bg-black/20 text-gray-400 text-[10px] py-1 px-2 rounded border border-white/10 outline-none hover:border-white/30 transition-colors w-32 truncate"
+                        >
+                            <option value="" className="bg-dark-panel">No Monitor</option>
+                            {outputDevices.map((device, idx) => (
+                                <option key={device.deviceId || idx} value={device.deviceId} className="bg-dark-panel">
+                                    Monitor: {device.label || `Speaker ${idx + 1}`}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                 )}
+
                  <div className="w-px h-8 bg-white/10 mx-2"></div>
 
                  <button 
-                   onClick={() => setVideoSource(currentVideoSource === VideoSourceType.CAMERA ? VideoSourceType.NONE : VideoSourceType.CAMERA)}
-                   className={`p-4 rounded-full transition-all ${currentVideoSource === VideoSourceType.CAMERA ? 'bg-gemini-blue text-black shadow-[0_0_20px_rgba(77,170,252,0.4)]' : 'bg-white/5 hover:bg-white/10 text-white'}`}
+                   onClick={() => setVideoSource(videoSourceFor(!hasCamera, hasScreen))}
+                   className={`p-4 rounded-full transition-all ${hasCamera ? 'bg-gemini-blue text-black shadow-[0_0_20px_rgba(77,170,252,0.4)]' : 'bg-white/5 hover:bg-white/10 text-white'}`}
                    title="Toggle Webcam"
                  >
                    <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
                  </button>
 
                  <button 
-                   onClick={() => setVideoSource(currentVideoSource === VideoSourceType.SCREEN ? VideoSourceType.NONE : VideoSourceType.SCREEN)}
-                   className={`relative p-4 rounded-full transition-all overflow-hidden ${currentVideoSource === VideoSourceType.SCREEN ? 'bg-gemini-purple text-black shadow-[0_0_20px_rgba(155,138,251,0.4)]' : 'bg-white/5 hover:bg-white/10 text-white'}`}
+                   onClick={() => setVideoSource(videoSourceFor(hasCamera, !hasScreen))}
+                   className={`relative p-4 rounded-full transition-all overflow-hidden ${hasScreen ? 'bg-gemini-purple text-black shadow-[0_0_20px_rgba(155,138,251,0.4)]' : 'bg-white/5 hover:bg-white/10 text-white'}`}
                    title="Share Screen"
                  >
                    {/* Screen Volume Indicator Overlay */}
-                   {screenVolume > 0 && currentVideoSource === VideoSourceType.SCREEN && (
+                   {screenVolume > 0 && hasScreen && (
                        <div className="absolute bottom-0 left-0 w-full bg-green-500/30 transition-all duration-100 ease-out pointer-events-none"
                             style={{ height: `${Math.min(100, screenVolume * 400)}%` }}
                        />
@@ -418,8 +725,18 @@ export default function App() {
                    </div>
                  </button>
 
+                 {/* Local Media File (watch-along / reproducible persona tests) */}
+                 <button 
+                   onClick={() => isFileSource ? setVideoSource(VideoSourceType.NONE) : mediaFileInputRef.current?.click()}
+                   className={`p-4 rounded-full transition-all ${isFileSource ? 'bg-amber-400 text-black shadow-[0_0_20px_rgba(251,191,36,0.4)]' : 'bg-white/5 hover:bg-white/10 text-white'}`}
+                   title={isFileSource ? "Stop Media File" : "Play Local Media File"}
+                 >
+                   <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 4v16M17 4v16M3 8h4m10 0h4M3 12h18M3 16h4m10 0h4M4 20h16a1 1 0 001-1V5a1 1 0 00-1-1H4a1 1 0 00-1 1v14a1 1 0 001 1z" /></svg>
+                 </button>
+                 <input ref={mediaFileInputRef} type="file" accept="video/*,audio/*" className="hidden" onChange={handleMediaFile} />
+
                  {/* Screen Audio Mute Toggle - Only shows when screen sharing has audio */}
-                 {currentVideoSource === VideoSourceType.SCREEN && isScreenAudioShared && (
+                 {hasScreenAudio && isScreenAudioShared && (
                    <button 
                      onClick={toggleScreenAudio}
                      className={`p-4 ml-2 rounded-full transition-all ${isScreenAudioMuted ? 'bg-red-500/20 text-red-400' : 'bg-white/5 hover:bg-white/10 text-white'}`}
@@ -440,6 +757,17 @@ export default function App() {
 
                  <div className="w-px h-8 bg-white/10 mx-2"></div>
 
+                 {/* Conversation Recording */}
+                 <button 
+                   onClick={isRecordingConversation ? stopConversationRecording : startConversationRecording}
+                   className={`p-4 rounded-full transition-all ${isRecordingConversation ? 'bg-red-500/20 text-red-400' : 'bg-white/5 hover:bg-white/10 text-white'}`}
+                   title={isRecordingConversation ? "Stop recording and save" : "Record conversation (WebM)"}
+                 >
+                   <span className={`block w-6 h-6 border-2 border-current flex items-center justify-center ${isRecordingConversation ? 'rounded-md' : 'rounded-full'}`}>
+                     <span className={`block bg-red-500 ${isRecordingConversation ? 'w-2.5 h-2.5 rounded-sm animate-pulse' : 'w-3 h-3 rounded-full'}`}></span>
+                   </span>
+                 </button>
+
                  <button 
                    onClick={disconnect}
                    className="px-6 py-2 bg-red-500/10 hover:bg-red-500/20 text-red-500 rounded-full text-sm font-semibold transition-colors border border-red-500/20"
@@ -466,6 +794,12 @@ export default function App() {
            >
              MCP Tools
            </button>
+           <button 
+              onClick={() => setActiveTab('mixer')}
+              className={`flex-1 py-4 text-sm font-medium transition-colors ${activeTab === 'mixer' ? 'text-gemini-blue border-b-2 border-gemini-blue' : 'text-gray-500 hover:text-gray-300'}`}
+           >
+             Mixer
+           </button>
         </div>
 
         <div className="flex-1 overflow-hidden relative flex flex-col">
@@ -530,8 +864,20 @@ export default function App() {
                    </div>
                  )}
              </div>
-          ) : (
+          ) : activeTab === 'tools' ? (
              <ToolsPanel tools={tools} addTool={(t) => setTools(prev => [...prev, t])} />
+          ) : (
+             <MixerPanel
+                mixer={resolveMixer(config)}
+                enableDucking={config.enableDucking ?? true}
+                onChange={(patch) => setConfig(prev => ({ ...prev, mixer: { ...prev.mixer, ...patch } }))}
+                onToggleDucking={() => setConfig(prev => ({ ...prev, enableDucking: !(prev.enableDucking ?? true) }))}
+                micVolume={volume}
+                screenVolume={screenVolume}
+                aiVolume={aiVolume}
+                isAiSpeaking={isAiSpeaking}
+                playbackStats={playbackStats}
+             />
           )}
         </div>
         
@@ -0,0 +1,33 @@
+import React from 'react';
+import { CaptionFrame } from '../utils/captionTrack';
+
+interface LiveCaptionsProps {
+  caption: CaptionFrame | null;
+  // Sit higher, clear of the native media controls (FILE source)
+  raised?: boolean;
+}
+
+/**
+ * Karaoke-style captions of the AI's speech over the Live Feed preview: the current line, with
+ * the words already spoken lit up in time with playback.
+ */
+export const LiveCaptions: React.FC<LiveCaptionsProps> = ({ caption, raised }) => {
+  if (!caption || caption.words.length === 0) return null;
+
+  return (
+    <div className={`absolute inset-x-0 z-20 flex justify-center px-6 pointer-events-none ${raised ? 'bottom-16' : 'bottom-6'}`}>
+      <div className="max-w-[90%] px-4 py-2 rounded-lg bg-black/75 backdrop-blur-sm text-lg leading-snug font-semibold text-center">
+        {caption.words.map((word, i) => (
+          <span
+            key={i}
+            className={`transition-colors duration-100 ${
+              i === caption.spoken - 1 ? 'text-gemini-blue' : i < caption.spoken ? 'text-white' : 'text-gray-500'
+            }`}
+          >
+            {word}{i < caption.words.length - 1 ? ' ' : ''}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
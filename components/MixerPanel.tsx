@@ -0,0 +1,157 @@
+import React from 'react';
+import { MixerSettings } from '../types';
+import { MIXER_PRESETS } from '../utils/mixer';
+import { PlaybackStats } from '../utils/playbackQueue';
+
+interface MixerPanelProps {
+  mixer: MixerSettings;
+  enableDucking: boolean;
+  onChange: (patch: Partial<MixerSettings>) => void;
+  onToggleDucking: () => void;
+  // Live levels for feedback while tweaking
+  micVolume: number;
+  screenVolume: number;
+  aiVolume: number;
+  isAiSpeaking: boolean;
+  playbackStats: PlaybackStats;
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, format, onChange, disabled }) => (
+  <div className={`space-y-1 ${disabled ? 'opacity-40' : ''}`}>
+    <div className="flex justify-between items-center">
+      <label className="text-[10px] uppercase font-bold text-gray-500">{label}</label>
+      <span className="text-[10px] font-mono text-gray-300">{format(value)}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-gemini-blue"
+    />
+  </div>
+);
+
+const Meter: React.FC<{ label: string; level: number; color: string }> = ({ label, level, color }) => (
+  <div className="flex items-center gap-2">
+    <span className="w-12 text-[10px] uppercase font-bold text-gray-500">{label}</span>
+    <div className="flex-1 h-1.5 bg-white/5 rounded-full overflow-hidden">
+      <div className={`h-full ${color} transition-all duration-100`} style={{ width: `${Math.min(100, level * 400)}%` }} />
+    </div>
+  </div>
+);
+
+const Stat: React.FC<{ label: string; value: string; warn?: boolean }> = ({ label, value, warn }) => (
+  <div className="bg-white/5 rounded-lg px-2 py-1.5">
+    <div className="text-[9px] uppercase font-bold text-gray-500">{label}</div>
+    <div className={`text-xs font-mono ${warn ? 'text-amber-400' : 'text-gray-300'}`}>{value}</div>
+  </div>
+);
+
+const percent = (v: number) => `${Math.round(v * 100)}%`;
+const ms = (v: number) => `${v}ms`;
+
+export const MixerPanel: React.FC<MixerPanelProps> = ({
+  mixer, enableDucking, onChange, onToggleDucking, micVolume, screenVolume, aiVolume, isAiSpeaking, playbackStats
+}) => {
+  return (
+    <div className="p-4 bg-dark-panel rounded-xl border border-white/10 h-full flex flex-col gap-5 overflow-y-auto">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-bold text-gray-300 uppercase tracking-wider">Audio Mixer</h3>
+        {isAiSpeaking && enableDucking && (
+          <span className="text-[10px] font-bold text-amber-400 tracking-wider animate-pulse">DUCKING</span>
+        )}
+      </div>
+
+      {/* Levels */}
+      <div className="space-y-2">
+        <Meter label="Mic" level={micVolume} color="bg-green-500" />
+        <Meter label="Screen" level={screenVolume} color="bg-blue-500" />
+        <Meter label="AI" level={aiVolume} color="bg-gemini-purple" />
+      </div>
+
+      {/* Presets */}
+      <div className="grid grid-cols-3 gap-2">
+        {MIXER_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => onChange(preset.settings)}
+            title={preset.description}
+            className="px-2 py-1.5 rounded-lg text-xs font-medium bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white transition-colors"
+          >
+            {preset.name}
+          </button>
+        ))}
+      </div>
+
+      {/* Input Levels */}
+      <div className="space-y-3">
+        <Slider label="Mic Gain" value={mixer.micGain} min={0} max={2} step={0.05} format={percent} onChange={micGain => onChange({ micGain })} />
+        <Slider label="Screen Mix Level" value={mixer.screenMixLevel} min={0} max={1} step={0.05} format={percent} onChange={screenMixLevel => onChange({ screenMixLevel })} />
+      </div>
+
+      {/* Ducking */}
+      <div className="space-y-3 pt-3 border-t border-white/10">
+        <div className="flex items-center justify-between">
+          <label className="text-xs font-bold text-white">Duck Screen While AI Speaks</label>
+          <button
+            onClick={onToggleDucking}
+            className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${enableDucking ? 'bg-gemini-blue' : 'bg-gray-700'}`}
+          >
+            <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${enableDucking ? 'translate-x-5' : 'translate-x-1'}`} />
+          </button>
+        </div>
+        <Slider label="Duck Depth (level kept)" value={mixer.duckDepth} min={0} max={1} step={0.01} format={percent} onChange={duckDepth => onChange({ duckDepth })} disabled={!enableDucking} />
+        <Slider label="Attack" value={mixer.attackMs} min={10} max={1000} step={10} format={ms} onChange={attackMs => onChange({ attackMs })} disabled={!enableDucking} />
+        <Slider label="Hold" value={mixer.holdMs} min={0} max={2000} step={50} format={ms} onChange={holdMs => onChange({ holdMs })} disabled={!enableDucking} />
+        <Slider label="Release" value={mixer.releaseMs} min={50} max={3000} step={50} format={ms} onChange={releaseMs => onChange({ releaseMs })} disabled={!enableDucking} />
+      </div>
+
+      {/* Sidechain */}
+      <div className="space-y-3 pt-3 border-t border-white/10">
+        <div className="flex items-center justify-between">
+          <div>
+            <label className="text-xs font-bold text-white">Sidechain (RMS) Ducking</label>
+            <p className="text-[10px] text-gray-500 mt-0.5">Duck on how loud the AI actually is, not just whether audio is queued.</p>
+          </div>
+          <button
+            onClick={() => onChange({ sidechain: !mixer.sidechain })}
+            className={`relative inline-flex h-5 w-9 shrink-0 items-center rounded-full transition-colors ${mixer.sidechain ? 'bg-gemini-blue' : 'bg-gray-700'}`}
+          >
+            <span className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${mixer.sidechain ? 'translate-x-5' : 'translate-x-1'}`} />
+          </button>
+        </div>
+        {mixer.sidechain && (
+          <Slider label="Threshold" value={mixer.sidechainThreshold} min={0.005} max={0.2} step={0.005} format={v => v.toFixed(3)} onChange={sidechainThreshold => onChange({ sidechainThreshold })} />
+        )}
+      </div>
+
+      {/* Playback jitter buffer */}
+      <div className="space-y-2 pt-3 border-t border-white/10">
+        <label className="text-xs font-bold text-white">AI Playback Buffer</label>
+        <div className="grid grid-cols-3 gap-2">
+          <Stat label="Buffered" value={ms(Math.round(playbackStats.bufferedMs))} />
+          <Stat label="Target" value={ms(Math.round(playbackStats.targetMs))} />
+          <Stat label="Chunks" value={String(playbackStats.chunks)} />
+          <Stat label="Underruns" value={String(playbackStats.underruns)} warn={playbackStats.underruns > 0} />
+          <Stat label="Late" value={String(playbackStats.lateChunks)} />
+          <Stat label="Played" value={`${(playbackStats.totalQueuedMs / 1000).toFixed(1)}s`} />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { RegionOfInterest, MIN_ROI_SIZE } from '../utils/regionOfInterest';
+import { RedactionMask } from '../utils/redaction';
+import { useFrameRegionDrag } from '../hooks/useFrameRegionDrag';
+
+interface RedactionOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  masks: RedactionMask[];
+  isEditing: boolean;
+  onAdd: (region: RegionOfInterest) => void;
+  onRemove: (id: string) => void;
+}
+
+/**
+ * Shows the active privacy masks over the Live Feed preview, styled like what the model
+ * receives. While editing, dragging adds a mask and each mask gets a remove button.
+ */
+export const RedactionOverlay: React.FC<RedactionOverlayProps> = ({ videoRef, masks, isEditing, onAdd, onRemove }) => {
+  const { overlayRef, draft, box, place, handlers } = useFrameRegionDrag({
+    videoRef,
+    isEditing,
+    // Clicks on a mask's remove button must not start a new mask
+    ownTargetOnly: true,
+    onComplete: region => {
+      if (region.width >= MIN_ROI_SIZE && region.height >= MIN_ROI_SIZE) onAdd(region);
+    },
+  });
+
+  return (
+    <div
+      ref={overlayRef}
+      className={`absolute inset-0 ${isEditing ? 'cursor-crosshair' : 'pointer-events-none'}`}
+      {...handlers}
+    >
+      {isEditing && masks.length === 0 && !draft && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <span className="px-3 py-1.5 rounded-full bg-black/60 text-xs text-white border border-white/10">
+            Drag over anything the model must not see
+          </span>
+        </div>
+      )}
+      {box && masks.map(mask => (
+        <div
+          key={mask.id}
+          className={`absolute flex items-center justify-center border border-red-400/70 ${mask.style === 'fill' ? 'bg-black' : 'backdrop-blur-xl bg-white/10'}`}
+          style={place(mask)}
+        >
+          <span className="text-[9px] font-bold tracking-wider uppercase text-red-300/80 pointer-events-none">Redacted</span>
+          {isEditing && (
+            <button
+              onClick={() => onRemove(mask.id)}
+              className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-red-500 hover:bg-red-400 text-white text-xs leading-none"
+              title="Remove mask"
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+      {draft && box && (
+        <div className="absolute border-2 border-dashed border-red-400 bg-red-500/20 pointer-events-none" style={place(draft)} />
+      )}
+    </div>
+  );
+};
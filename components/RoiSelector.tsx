@@ -0,0 +1,42 @@
+import React from 'react';
+import { RegionOfInterest } from '../utils/regionOfInterest';
+import { useFrameRegionDrag } from '../hooks/useFrameRegionDrag';
+
+interface RoiSelectorProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  roi: RegionOfInterest | null;
+  isEditing: boolean;
+  onChange: (roi: RegionOfInterest) => void;
+}
+
+/**
+ * Overlay for the Live Feed preview. Shows the active crop (everything outside is dimmed)
+ * and, while editing, lets the user drag out a new one. Coordinates are normalized to the
+ * video frame, so the region survives window resizes and resolution changes.
+ */
+export const RoiSelector: React.FC<RoiSelectorProps> = ({ videoRef, roi, isEditing, onChange }) => {
+  const { overlayRef, draft, box, place, handlers } = useFrameRegionDrag({ videoRef, isEditing, onComplete: onChange });
+  const shown = draft ?? roi;
+
+  return (
+    <div
+      ref={overlayRef}
+      className={`absolute inset-0 ${isEditing ? 'cursor-crosshair' : 'pointer-events-none'}`}
+      {...handlers}
+    >
+      {isEditing && !shown && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/30">
+          <span className="px-3 py-1.5 rounded-full bg-black/60 text-xs text-white border border-white/10">
+            Drag to select the region sent to the model
+          </span>
+        </div>
+      )}
+      {shown && box && (
+        <div
+          className={`absolute border-2 ${isEditing ? 'border-amber-400' : 'border-amber-400/60'} shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]`}
+          style={place(shown)}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { StreamConfig, CartesiaVoice } from '../types';
+import { StreamConfig, CartesiaVoice, TtsProviderType } from '../types';
 import { PERSONAS } from '../utils/personas';
 import { fetchCartesiaVoices } from '../utils/cartesiaClient';
+import { TtsVoice, TTS_PROVIDER_LABELS, createTtsProvider, resolveTtsProviderType } from '../utils/ttsProvider';
+import { DEFAULT_TTS_SERVER_URL } from '../utils/websocketTts';
+import { EmotionDelivery, Sentiment, SENTIMENTS, CARTESIA_EMOTIONS, resolveEmotionMap } from '../utils/emotionDelivery';
+import { DEFAULT_COMPOSITE_SETTINGS, PipPosition } from '../utils/frameCompositor';
+import { DEFAULT_VIDEO_FPS, DEFAULT_VIDEO_MAX_IDLE_MS, DEFAULT_VIDEO_DIFF_THRESHOLD } from '../utils/frameSampler';
+import { DEFAULT_VIDEO_FORMAT, DEFAULT_VIDEO_QUALITY, DEFAULT_VIDEO_MAX_WIDTH, DEFAULT_VIDEO_MAX_HEIGHT } from '../utils/frameEncoder';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -15,6 +21,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, c
   const [voices, setVoices] = useState<CartesiaVoice[]>([]);
   const [isLoadingVoices, setIsLoadingVoices] = useState(false);
   const [voiceError, setVoiceError] = useState<string | null>(null);
+  const [providerVoices, setProviderVoices] = useState<TtsVoice[]>([]);
 
   useEffect(() => {
     if (isOpen) {
@@ -40,8 +47,44 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, c
     }
   };
 
+  // Voices of the browser / server providers; Cartesia's come from its REST API above
+  const handleFetchProviderVoices = async () => {
+    const provider = createTtsProvider(localConfig, { onAudio: () => {} });
+    if (!provider) return;
+    setIsLoadingVoices(true);
+    setVoiceError(null);
+    try {
+      setProviderVoices(await provider.listVoices());
+    } catch (e: any) {
+      setProviderVoices([]);
+      setVoiceError(e.message || "Failed to load voices");
+    } finally {
+      setIsLoadingVoices(false);
+    }
+  };
+
   if (!isOpen) return null;
 
+  const ttsProvider = resolveTtsProviderType(localConfig);
+  const emotionMap = resolveEmotionMap(localConfig);
+
+  // Edits are kept per persona, as full entries over the persona's own table
+  const updateDelivery = (sentiment: Sentiment, patch: Partial<EmotionDelivery>) => {
+    setLocalConfig(prev => {
+      const personaMaps = prev.emotionMaps?.[prev.persona] ?? {};
+      const delivery = { ...resolveEmotionMap(prev)[sentiment], ...patch };
+      return { ...prev, emotionMaps: { ...prev.emotionMaps, [prev.persona]: { ...personaMaps, [sentiment]: delivery } } };
+    });
+  };
+
+  const resetDelivery = () => {
+    setLocalConfig(prev => {
+      const { [prev.persona]: _, ...rest } = prev.emotionMaps ?? {};
+      return { ...prev, emotionMaps: rest };
+    });
+  };
+  const providerVoiceId = (ttsProvider === 'websocket' ? localConfig.ttsServerVoice : localConfig.speechSynthesisVoice) || '';
+
   const handleSave = () => {
     onSave(localConfig);
     onClose();
@@ -105,27 +148,35 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, c
             />
           </div>
           
-          {/* Text-to-Speech Settings (Cartesia) */}
+          {/* Text-to-Speech Provider */}
           <div className="space-y-4 bg-gradient-to-r from-purple-900/20 to-blue-900/20 p-4 rounded-lg border border-white/10">
-            <div className="flex items-center justify-between">
-              <div>
-                <label className="text-sm font-bold text-white flex items-center gap-2">
-                   Cartesia TTS 
-                   <span className="px-1.5 py-0.5 rounded bg-purple-500 text-[10px] text-white">BETA</span>
-                </label>
-                <p className="text-xs text-gray-400 mt-1">
-                  Replace Gemini's voice with Cartesia's low-latency Sonic model.
-                </p>
-              </div>
-              <button 
-                onClick={() => setLocalConfig(prev => ({ ...prev, useCartesia: !prev.useCartesia }))}
-                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${localConfig.useCartesia ? 'bg-purple-500' : 'bg-gray-700'}`}
-              >
-                <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${localConfig.useCartesia ? 'translate-x-6' : 'translate-x-1'}`} />
-              </button>
+            <div>
+              <label className="text-sm font-bold text-white">Voice (TTS Provider)</label>
+              <p className="text-xs text-gray-400 mt-1">
+                Keep Gemini's own voice or speak its replies with another engine. A local server speaking the same protocol as <span className="font-mono">npm run mock:tts</span> plugs in as a WebSocket Server.
+              </p>
             </div>
-            
-            {localConfig.useCartesia && (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {(Object.keys(TTS_PROVIDER_LABELS) as TtsProviderType[]).map(id => (
+                <button
+                  key={id}
+                  onClick={() => {
+                    setLocalConfig(prev => ({ ...prev, ttsProvider: id }));
+                    setProviderVoices([]);
+                    setVoiceError(null);
+                  }}
+                  className={`px-3 py-2 rounded-lg text-xs font-medium transition-all ${
+                    ttsProvider === id
+                      ? 'bg-purple-500 text-white shadow-lg shadow-purple-500/20'
+                      : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                  }`}
+                >
+                  {TTS_PROVIDER_LABELS[id]}
+                </button>
+              ))}
+            </div>
+
+            {ttsProvider === 'cartesia' && (
               <div className="grid grid-cols-1 gap-3 animate-in fade-in slide-in-from-top-2">
                  <div className="space-y-1">
                     <label className="text-[10px] uppercase font-bold text-gray-500">Cartesia API Key</label>
@@ -195,28 +246,533 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, c
                    </div>
                  )}
 
-                 {/* Cost Optimized Mode Toggle */}
-                 <div className="pt-3 mt-3 border-t border-white/10">
-                   <div className="flex items-center justify-between">
-                     <div>
-                       <label className="text-xs font-bold text-white flex items-center gap-2">
-                         Cost Optimized Mode
-                         <span className="px-1.5 py-0.5 rounded bg-green-500 text-[10px] text-white">SAVES 44%</span>
-                       </label>
-                       <p className="text-[10px] text-gray-400 mt-1">
-                         Use Gemini TEXT output ($2/1M) instead of AUDIO ($12/1M). Adds ~100-200ms latency.
-                       </p>
-                     </div>
-                     <button
-                       onClick={() => setLocalConfig(prev => ({ ...prev, useTextMode: !prev.useTextMode }))}
-                       className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${localConfig.useTextMode ? 'bg-green-500' : 'bg-gray-700'}`}
+                 {/* Output Audio Format */}
+                 <div className="grid grid-cols-2 gap-3">
+                   <div className="space-y-1">
+                     <label className="text-[10px] uppercase font-bold text-gray-500">Sample Rate</label>
+                     <select
+                       value={localConfig.cartesiaSampleRate || 44100}
+                       onChange={(e) => setLocalConfig(prev => ({ ...prev, cartesiaSampleRate: parseInt(e.target.value) as StreamConfig['cartesiaSampleRate'] }))}
+                       className="w-full bg-black/40 border border-white/10 rounded px-3 py-2 text-xs text-white outline-none focus:border-purple-500"
                      >
-                       <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${localConfig.useTextMode ? 'translate-x-6' : 'translate-x-1'}`} />
-                     </button>
+                       {[22050, 24000, 44100, 48000].map(rate => (
+                         <option key={rate} value={rate}>{(rate / 1000).toFixed(rate % 1000 ? 2 : 0)} kHz</option>
+                       ))}
+                     </select>
+                   </div>
+                   <div className="space-y-1">
+                     <label className="text-[10px] uppercase font-bold text-gray-500">Encoding</label>
+                     <select
+                       value={localConfig.cartesiaEncoding || 'f32'}
+                       onChange={(e) => setLocalConfig(prev => ({ ...prev, cartesiaEncoding: e.target.value as StreamConfig['cartesiaEncoding'] }))}
+                       className="w-full bg-black/40 border border-white/10 rounded px-3 py-2 text-xs text-white outline-none focus:border-purple-500"
+                     >
+                       <option value="f32">Float 32-bit</option>
+                       <option value="s16">PCM 16-bit</option>
+                     </select>
                    </div>
                  </div>
               </div>
             )}
+
+            {ttsProvider === 'websocket' && (
+              <div className="space-y-1 animate-in fade-in slide-in-from-top-2">
+                <label className="text-[10px] uppercase font-bold text-gray-500">TTS Server URL</label>
+                <input
+                  type="text"
+                  value={localConfig.ttsServerUrl || ''}
+                  onChange={(e) => setLocalConfig(prev => ({ ...prev, ttsServerUrl: e.target.value }))}
+                  placeholder={DEFAULT_TTS_SERVER_URL}
+                  className="w-full bg-black/40 border border-white/10 rounded px-3 py-2 text-xs text-white outline-none focus:border-purple-500 font-mono"
+                />
+              </div>
+            )}
+
+            {(ttsProvider === 'speechSynthesis' || ttsProvider === 'websocket') && (
+              <div className="space-y-1 animate-in fade-in slide-in-from-top-2">
+                <label className="text-[10px] uppercase font-bold text-gray-500">Voice Selection</label>
+                <div className="flex gap-2">
+                  <select
+                    value={providerVoiceId}
+                    onChange={(e) => setLocalConfig(prev => ttsProvider === 'websocket'
+                      ? { ...prev, ttsServerVoice: e.target.value }
+                      : { ...prev, speechSynthesisVoice: e.target.value })}
+                    className="flex-1 bg-black/40 border border-white/10 rounded px-3 py-2 text-xs text-white outline-none focus:border-purple-500"
+                  >
+                    <option value="">Default voice</option>
+                    {providerVoices.map(voice => (
+                      <option key={voice.id} value={voice.id}>
+                        {voice.name}{voice.language ? ` (${voice.language})` : ''}
+                      </option>
+                    ))}
+                    {providerVoiceId && !providerVoices.find(v => v.id === providerVoiceId) && (
+                      <option value={providerVoiceId}>{providerVoiceId} (Custom ID)</option>
+                    )}
+                  </select>
+                  <button
+                    onClick={handleFetchProviderVoices}
+                    disabled={isLoadingVoices}
+                    className="px-3 py-2 bg-purple-500/20 hover:bg-purple-500/40 text-purple-300 rounded text-xs font-bold transition-colors disabled:opacity-50"
+                  >
+                    {isLoadingVoices ? 'Loading...' : 'Refresh Voices'}
+                  </button>
+                </div>
+                {voiceError && (
+                  <div className="text-[10px] text-red-400 bg-red-500/10 p-2 rounded border border-red-500/20">
+                    {voiceError}
+                  </div>
+                )}
+                {ttsProvider === 'speechSynthesis' && (
+                  <p className="text-[10px] text-gray-500">
+                    The browser plays this voice itself, so it isn't recorded and ignores the output device setting.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Cost Optimized Mode Toggle */}
+            {ttsProvider !== 'gemini' && (
+              <div className="pt-3 mt-3 border-t border-white/10">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="text-xs font-bold text-white flex items-center gap-2">
+                      Cost Optimized Mode
+                      <span className="px-1.5 py-0.5 rounded bg-green-500 text-[10px] text-white">SAVES 44%</span>
+                    </label>
+                    <p className="text-[10px] text-gray-400 mt-1">
+                      Use Gemini TEXT output ($2/1M) instead of AUDIO ($12/1M). Adds ~100-200ms latency.
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setLocalConfig(prev => ({ ...prev, useTextMode: !prev.useTextMode }))}
+                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${localConfig.useTextMode ? 'bg-green-500' : 'bg-gray-700'}`}
+                  >
+                    <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${localConfig.useTextMode ? 'translate-x-6' : 'translate-x-1'}`} />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Emotion Delivery */}
+          <div className="space-y-3 bg-white/5 p-4 rounded-lg border border-white/5">
+            <div className="flex items-center justify-between">
+              <div>
+                <label className="text-sm font-medium text-gray-300">Emotion Delivery</label>
+                <p className="text-xs text-gray-500 mt-1">
+                  Voice each turn's sentiment tag. {ttsProvider === 'gemini'
+                    ? "Gemini's own voice can only be sped up (raising the pitch) and made louder."
+                    : 'Speed and emotions go to the TTS provider (emotions are Cartesia only).'}
+                </p>
+              </div>
+              <button
+                onClick={() => setLocalConfig(prev => ({ ...prev, emotionDelivery: !(prev.emotionDelivery ?? true) }))}
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${(localConfig.emotionDelivery ?? true) ? 'bg-gemini-blue' : 'bg-gray-700'}`}
+              >
+                <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${(localConfig.emotionDelivery ?? true) ? 'translate-x-6' : 'translate-x-1'}`} />
+              </button>
+            </div>
+
+            {(localConfig.emotionDelivery ?? true) && (
+              <div className="space-y-3 animate-in fade-in slide-in-from-top-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-[10px] uppercase font-bold text-gray-500">Mapping for {activePersona?.name ?? localConfig.persona}</span>
+                  <button
+                    onClick={resetDelivery}
+                    disabled={!localConfig.emotionMaps?.[localConfig.persona]}
+                    className="text-[10px] text-gray-400 hover:text-white transition-colors disabled:opacity-40"
+                  >
+                    Reset to persona defaults
+                  </button>
+                </div>
+                {SENTIMENTS.map(sentiment => {
+                  const delivery = emotionMap[sentiment];
+                  return (
+                    <div key={sentiment} className="p-3 bg-black/20 rounded border border-white/5 space-y-2">
+                      <div className="text-xs font-bold text-white uppercase tracking-wider">{sentiment}</div>
+                      <div className={`grid ${ttsProvider === 'gemini' ? 'grid-cols-2' : 'grid-cols-3'} gap-3`}>
+                        {ttsProvider === 'gemini' ? (
+                          <>
+                            <div className="space-y-1">
+                              <div className="flex justify-between items-center">
+                                <span className="text-[10px] text-gray-400">Rate</span>
+                                <span className="text-[10px] font-mono text-gray-300">{delivery.playbackRate.toFixed(2)}x</span>
+                              </div>
+                              <input
+                                type="range"
+                                min="0.8"
+                                max="1.25"
+                                step="0.01"
+                                value={delivery.playbackRate}
+                                onChange={(e) => updateDelivery(sentiment, { playbackRate: parseFloat(e.target.value) })}
+                                className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-gemini-blue"
+                              />
+                            </div>
+                            <div className="space-y-1">
+                              <div className="flex justify-between items-center">
+                                <span className="text-[10px] text-gray-400">Gain</span>
+                                <span className="text-[10px] font-mono text-gray-300">{delivery.gain.toFixed(2)}x</span>
+                              </div>
+                              <input
+                                type="range"
+                                min="0.5"
+                                max="1.5"
+                                step="0.05"
+                                value={delivery.gain}
+                                onChange={(e) => updateDelivery(sentiment, { gain: parseFloat(e.target.value) })}
+                                className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-gemini-blue"
+                              />
+                            </div>
+                          </>
+                        ) : (
+                          <>
+                            <div className="space-y-1">
+                              <div className="flex justify-between items-center">
+                                <span className="text-[10px] text-gray-400">Speed</span>
+                                <span className="text-[10px] font-mono text-gray-300">{delivery.speed > 0 ? '+' : ''}{delivery.speed.toFixed(1)}</span>
+                              </div>
+                              <input
+                                type="range"
+                                min="-1"
+                                max="1"
+                                step="0.1"
+                                value={delivery.speed}
+                                onChange={(e) => updateDelivery(sentiment, { speed: parseFloat(e.target.value) })}
+                                className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-gemini-blue"
+                              />
+                            </div>
+                            <div className="space-y-1 col-span-2">
+                              <span className="text-[10px] text-gray-400">Emotions</span>
+                              <input
+                                type="text"
+                                value={delivery.emotions.join(', ')}
+                                onChange={(e) => updateDelivery(sentiment, { emotions: e.target.value.split(',').map(emotion => emotion.trim()) })}
+                                placeholder={`e.g. ${CARTESIA_EMOTIONS[1]}:high, ${CARTESIA_EMOTIONS[2]}`}
+                                className="w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-[10px] text-white outline-none focus:border-gemini-blue font-mono"
+                              />
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+                {ttsProvider !== 'gemini' && (
+                  <p className="text-[10px] text-gray-500">
+                    Cartesia emotions: {CARTESIA_EMOTIONS.join(', ')}, each optionally with a level (:lowest, :low, :high, :highest).
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Live Backend (Transport) */}
+          <div className="space-y-3 bg-white/5 p-4 rounded-lg border border-white/5">
+            <div>
+              <label className="text-sm font-medium text-gray-300">Live Backend</label>
+              <p className="text-xs text-gray-500 mt-1">
+                Use the scripted mock server (<span className="font-mono">npm run mock:live</span>) to develop offline without an API key.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {([['gemini', 'Gemini Live API'], ['mock', 'Mock Live Server']] as const).map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setLocalConfig(prev => ({ ...prev, transport: id }))}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                    (localConfig.transport || 'gemini') === id
+                      ? 'bg-gemini-blue text-black shadow-lg shadow-gemini-blue/20'
+                      : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {localConfig.transport === 'mock' && (
+              <div className="space-y-1 animate-in fade-in slide-in-from-top-2">
+                <label className="text-[10px] uppercase font-bold text-gray-500">Mock Server URL</label>
+                <input
+                  type="text"
+                  value={localConfig.mockServerUrl || ''}
+                  onChange={(e) => setLocalConfig(prev => ({ ...prev, mockServerUrl: e.target.value }))}
+                  placeholder="ws://localhost:8765"
+                  className="w-full bg-black/40 border border-white/10 rounded px-3 py-2 text-xs text-white outline-none focus:border-gemini-blue font-mono"
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Session Budget */}
+          <div className="space-y-3 bg-white/5 p-4 rounded-lg border border-white/5">
+            <div>
+              <label className="text-sm font-medium text-gray-300">Session Budget</label>
+              <p className="text-xs text-gray-500 mt-1">
+                Near a limit the agent lowers the frame rate, then switches Cartesia to TEXT mode, then disconnects. Leave empty for no limit.
+              </p>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {([['budgetMaxUsd', 'Max Cost ($)', '0.01'], ['budgetMaxMinutes', 'Max Minutes', '1'], ['budgetMaxVideoFrames', 'Max Frames', '100']] as const).map(([key, label, step]) => (
+                <div key={key} className="space-y-1">
+                  <label className="text-[10px] uppercase font-bold text-gray-500">{label}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step={step}
+                    value={localConfig[key] || ''}
+                    onChange={(e) => setLocalConfig(prev => ({ ...prev, [key]: e.target.value ? parseFloat(e.target.value) : undefined }))}
+                    placeholder="∞"
+                    className="w-full bg-black/40 border border-white/10 rounded px-3 py-2 text-xs text-white outline-none focus:border-gemini-blue font-mono"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Mic Mode */}
+          <div className="space-y-3 bg-white/5 p-4 rounded-lg border border-white/5">
+            <div>
+              <label className="text-sm font-medium text-gray-300">Microphone Mode</label>
+              <p className="text-xs text-gray-500 mt-1">
+                Voice detection and push-to-talk skip silent mic audio, so you don't pay for it. Screen audio is still sent while it plays.
+              </p>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {([['continuous', 'Always On'], ['vad', 'Voice Detect'], ['pushToTalk', 'Push-to-Talk']] as const).map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setLocalConfig(prev => ({ ...prev, micMode: id }))}
+                  className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
+                    (localConfig.micMode || 'continuous') === id
+                      ? 'bg-gemini-blue text-black shadow-lg shadow-gemini-blue/20'
+                      : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {localConfig.micMode === 'vad' && (
+              <div className="grid grid-cols-2 gap-3 animate-in fade-in slide-in-from-top-2">
+                {([['vadHangoverMs', 'Hangover (ms)', 400], ['vadPreRollMs', 'Pre-roll (ms)', 300]] as const).map(([key, label, fallback]) => (
+                  <div key={key} className="space-y-1">
+                    <label className="text-[10px] uppercase font-bold text-gray-500">{label}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="2000"
+                      step="50"
+                      value={localConfig[key] ?? fallback}
+                      onChange={(e) => setLocalConfig(prev => ({ ...prev, [key]: parseInt(e.target.value) || 0 }))}
+                      className="w-full bg-black/40 border border-white/10 rounded px-3 py-2 text-xs text-white outline-none focus:border-gemini-blue font-mono"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            {localConfig.micMode === 'pushToTalk' && (
+              <div className="space-y-1 animate-in fade-in slide-in-from-top-2">
+                <label className="text-[10px] uppercase font-bold text-gray-500">Hotkey (click, then press a key)</label>
+                <input
+                  type="text"
+                  readOnly
+                  value={localConfig.pushToTalkKey || 'Space'}
+                  onKeyDown={(e) => {
+                    e.preventDefault();
+                    setLocalConfig(prev => ({ ...prev, pushToTalkKey: e.code }));
+                  }}
+                  className="w-full bg-black/40 border border-white/10 rounded px-3 py-2 text-xs text-white outline-none focus:border-gemini-blue font-mono cursor-pointer"
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Mic Chunk Size */}
+          <div className="space-y-3 bg-white/5 p-4 rounded-lg border border-white/5">
+             <div className="flex justify-between items-center">
+               <label className="text-sm font-medium text-gray-300">Audio Chunk Size</label>
+               <span className="text-xs font-mono text-gemini-blue bg-gemini-blue/10 px-2 py-0.5 rounded border border-gemini-blue/20">
+                  {localConfig.audioChunkMs || 40}ms
+               </span>
+             </div>
+             <input
+               type="range"
+               min="20"
+               max="100"
+               step="10"
+               value={localConfig.audioChunkMs || 40}
+               onChange={(e) => setLocalConfig(prev => ({ ...prev, audioChunkMs: parseInt(e.target.value) }))}
+               className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-gemini-blue"
+             />
+             <p className="text-[10px] text-gray-500">
+               Smaller chunks lower input latency; larger chunks send fewer messages.
+             </p>
+          </div>
+
+          {/* Video Frame Sampling */}
+          <div className="space-y-3 bg-white/5 p-4 rounded-lg border border-white/5">
+             <label className="text-sm font-medium text-gray-300">Video Frame Sampling</label>
+             <p className="text-[10px] text-gray-500">
+               Frames that barely changed are skipped; big scene changes briefly burst to a higher rate.
+             </p>
+             <div className="space-y-1">
+               <div className="flex justify-between items-center">
+                 <span className="text-xs text-gray-400">Max Frame Rate</span>
+                 <span className="text-xs font-mono text-gray-300">{localConfig.videoFps || DEFAULT_VIDEO_FPS} FPS</span>
+               </div>
+               <input
+                 type="range"
+                 min="1"
+                 max="10"
+                 step="1"
+                 value={localConfig.videoFps || DEFAULT_VIDEO_FPS}
+                 onChange={(e) => setLocalConfig(prev => ({ ...prev, videoFps: parseInt(e.target.value) }))}
+                 className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-gemini-blue"
+               />
+             </div>
+             <div className="space-y-1">
+               <div className="flex justify-between items-center">
+                 <span className="text-xs text-gray-400">Max Idle Interval</span>
+                 <span className="text-xs font-mono text-gray-300">{((localConfig.videoMaxIdleMs || DEFAULT_VIDEO_MAX_IDLE_MS) / 1000).toFixed(1)}s</span>
+               </div>
+               <input
+                 type="range"
+                 min="1000"
+                 max="30000"
+                 step="500"
+                 value={localConfig.videoMaxIdleMs || DEFAULT_VIDEO_MAX_IDLE_MS}
+                 onChange={(e) => setLocalConfig(prev => ({ ...prev, videoMaxIdleMs: parseInt(e.target.value) }))}
+                 className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-gemini-blue"
+               />
+             </div>
+             <div className="space-y-1">
+               <div className="flex justify-between items-center">
+                 <span className="text-xs text-gray-400">Change Threshold</span>
+                 <span className="text-xs font-mono text-gray-300">{((localConfig.videoDiffThreshold ?? DEFAULT_VIDEO_DIFF_THRESHOLD) * 100).toFixed(1)}%</span>
+               </div>
+               <input
+                 type="range"
+                 min="0"
+                 max="0.2"
+                 step="0.005"
+                 value={localConfig.videoDiffThreshold ?? DEFAULT_VIDEO_DIFF_THRESHOLD}
+                 onChange={(e) => setLocalConfig(prev => ({ ...prev, videoDiffThreshold: parseFloat(e.target.value) }))}
+                 className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-gemini-blue"
+               />
+             </div>
+          </div>
+
+          {/* Frame Encoding */}
+          <div className="space-y-3 bg-white/5 p-4 rounded-lg border border-white/5">
+             <label className="text-sm font-medium text-gray-300">Frame Encoding</label>
+             <p className="text-[10px] text-gray-500">
+               WebP is smaller at the same quality; lower quality and resolution use fewer tokens.
+             </p>
+             <div className="grid grid-cols-2 gap-2">
+               {([['jpeg', 'JPEG'], ['webp', 'WebP']] as const).map(([format, label]) => (
+                 <button
+                   key={format}
+                   onClick={() => setLocalConfig(prev => ({ ...prev, videoFormat: format }))}
+                   className={`px-3 py-2 rounded-lg text-xs font-medium transition-all ${
+                     (localConfig.videoFormat || DEFAULT_VIDEO_FORMAT) === format
+                       ? 'bg-gemini-blue text-black'
+                       : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                   }`}
+                 >
+                   {label}
+                 </button>
+               ))}
+             </div>
+             <div className="space-y-1">
+               <div className="flex justify-between items-center">
+                 <span className="text-xs text-gray-400">Quality</span>
+                 <span className="text-xs font-mono text-gray-300">{Math.round((localConfig.videoQuality ?? DEFAULT_VIDEO_QUALITY) * 100)}%</span>
+               </div>
+               <input
+                 type="range"
+                 min="0.2"
+                 max="0.95"
+                 step="0.05"
+                 value={localConfig.videoQuality ?? DEFAULT_VIDEO_QUALITY}
+                 onChange={(e) => setLocalConfig(prev => ({ ...prev, videoQuality: parseFloat(e.target.value) }))}
+                 className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-gemini-blue"
+               />
+             </div>
+             <div className="space-y-1">
+               <span className="text-xs text-gray-400">Max Resolution</span>
+               <div className="grid grid-cols-4 gap-2">
+                 {([[640, 360], [1280, 720], [1920, 1080], [2560, 1440]] as const).map(([width, height]) => (
+                   <button
+                     key={width}
+                     onClick={() => setLocalConfig(prev => ({ ...prev, videoMaxWidth: width, videoMaxHeight: height }))}
+                     className={`px-2 py-1.5 rounded-lg text-[10px] font-mono transition-all ${
+                       (localConfig.videoMaxWidth || DEFAULT_VIDEO_MAX_WIDTH) === width && (localConfig.videoMaxHeight || DEFAULT_VIDEO_MAX_HEIGHT) === height
+                         ? 'bg-gemini-blue text-black'
+                         : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                     }`}
+                   >
+                     {height}p
+                   </button>
+                 ))}
+               </div>
+             </div>
+          </div>
+
+          {/* Screen + Webcam Composite */}
+          <div className="space-y-3 bg-white/5 p-4 rounded-lg border border-white/5">
+             <label className="text-sm font-medium text-gray-300">Screen + Webcam Layout</label>
+             <p className="text-[10px] text-gray-500">
+               Used when the webcam and screen share are both on: they are combined into one frame for the model.
+             </p>
+             <div className="grid grid-cols-2 gap-2">
+               {([['pip', 'Picture-in-Picture'], ['sideBySide', 'Side by Side']] as const).map(([layout, label]) => (
+                 <button
+                   key={layout}
+                   onClick={() => setLocalConfig(prev => ({ ...prev, compositeLayout: layout }))}
+                   className={`px-3 py-2 rounded-lg text-xs font-medium transition-all ${
+                     (localConfig.compositeLayout || DEFAULT_COMPOSITE_SETTINGS.layout) === layout
+                       ? 'bg-gemini-blue text-black'
+                       : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                   }`}
+                 >
+                   {label}
+                 </button>
+               ))}
+             </div>
+             {(localConfig.compositeLayout || DEFAULT_COMPOSITE_SETTINGS.layout) === 'pip' && (
+               <>
+                 <div className="grid grid-cols-4 gap-2">
+                   {(['top-left', 'top-right', 'bottom-left', 'bottom-right'] as PipPosition[]).map(position => (
+                     <button
+                       key={position}
+                       onClick={() => setLocalConfig(prev => ({ ...prev, pipPosition: position }))}
+                       className={`px-2 py-1.5 rounded-lg text-[10px] font-medium capitalize transition-all ${
+                         (localConfig.pipPosition || DEFAULT_COMPOSITE_SETTINGS.pipPosition) === position
+                           ? 'bg-gemini-purple text-black'
+                           : 'bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white'
+                       }`}
+                     >
+                       {position.replace('-', ' ')}
+                     </button>
+                   ))}
+                 </div>
+                 <div className="space-y-1">
+                   <div className="flex justify-between items-center">
+                     <span className="text-xs text-gray-400">Webcam Size</span>
+                     <span className="text-xs font-mono text-gray-300">{Math.round((localConfig.pipScale || DEFAULT_COMPOSITE_SETTINGS.pipScale) * 100)}%</span>
+                   </div>
+                   <input
+                     type="range"
+                     min="0.1"
+                     max="0.5"
+                     step="0.05"
+                     value={localConfig.pipScale || DEFAULT_COMPOSITE_SETTINGS.pipScale}
+                     onChange={(e) => setLocalConfig(prev => ({ ...prev, pipScale: parseFloat(e.target.value) }))}
+                     className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-gemini-blue"
+                   />
+                 </div>
+               </>
+             )}
           </div>
 
           {/* Commentary Pacing */}
@@ -286,8 +842,75 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, c
             </div>
           </div>
 
-          {/* Voice Selection - Hidden if Cartesia is on */}
-          {!localConfig.useCartesia && (
+          {/* Conversation Recording */}
+           <div className="space-y-3 bg-white/5 p-4 rounded-lg border border-white/5">
+            <div>
+              <label className="text-sm font-medium text-gray-300">Conversation Recording</label>
+              <p className="text-xs text-gray-500 mt-1">
+                The record button saves mic, screen audio and AI speech mixed into a WebM file.
+              </p>
+            </div>
+            <div className="flex items-center justify-between">
+              <label className="text-xs text-gray-400">Include Live Feed video</label>
+              <button 
+                onClick={() => setLocalConfig(prev => ({ ...prev, recordVideo: !prev.recordVideo }))}
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${localConfig.recordVideo ? 'bg-gemini-blue' : 'bg-gray-700'}`}
+              >
+                <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${localConfig.recordVideo ? 'translate-x-6' : 'translate-x-1'}`} />
+              </button>
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <label className="text-xs text-gray-400">Per-source WAV stems</label>
+                <p className="text-[10px] text-gray-500 mt-0.5">Separate mic / screen / AI files for editing. Uncompressed, held in memory until saved.</p>
+              </div>
+              <button 
+                onClick={() => setLocalConfig(prev => ({ ...prev, recordWavStems: !prev.recordWavStems }))}
+                className={`relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors ${localConfig.recordWavStems ? 'bg-gemini-blue' : 'bg-gray-700'}`}
+              >
+                <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${localConfig.recordWavStems ? 'translate-x-6' : 'translate-x-1'}`} />
+              </button>
+            </div>
+          </div>
+
+          {/* Live Captions Toggle */}
+          <div className="space-y-3 bg-white/5 p-4 rounded-lg border border-white/5">
+            <div className="flex items-center justify-between">
+              <div>
+                <label className="text-sm font-medium text-gray-300">Live Captions</label>
+                <p className="text-xs text-gray-500 mt-1">
+                  Karaoke-style captions of the AI's speech over the preview, timed to playback.
+                </p>
+              </div>
+              <button
+                onClick={() => setLocalConfig(prev => ({ ...prev, liveCaptions: !(prev.liveCaptions ?? true) }))}
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${(localConfig.liveCaptions ?? true) ? 'bg-gemini-blue' : 'bg-gray-700'}`}
+              >
+                <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${(localConfig.liveCaptions ?? true) ? 'translate-x-6' : 'translate-x-1'}`} />
+              </button>
+            </div>
+          </div>
+
+          {/* Auto Reconnect Toggle */}
+           <div className="space-y-3 bg-white/5 p-4 rounded-lg border border-white/5">
+            <div className="flex items-center justify-between">
+              <div>
+                <label className="text-sm font-medium text-gray-300">Auto Reconnect</label>
+                <p className="text-xs text-gray-500 mt-1">
+                  Resume the session automatically after network drops or server time limits.
+                </p>
+              </div>
+              <button 
+                onClick={() => setLocalConfig(prev => ({ ...prev, autoReconnect: !(prev.autoReconnect ?? true) }))}
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${(localConfig.autoReconnect ?? true) ? 'bg-gemini-blue' : 'bg-gray-700'}`}
+              >
+                <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${(localConfig.autoReconnect ?? true) ? 'translate-x-6' : 'translate-x-1'}`} />
+              </button>
+            </div>
+          </div>
+
+          {/* Voice Selection - Hidden when another TTS provider speaks */}
+          {ttsProvider === 'gemini' && (
             <div className="space-y-2">
               <label className="text-sm font-medium text-gray-300">Native Gemini Voice</label>
               <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
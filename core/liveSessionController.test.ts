@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LiveSessionController, ToolCallEvent } from './liveSessionController';
+import { SessionRecording, SESSION_RECORDING_VERSION } from '../utils/sessionRecorder';
+import { LogEntry, StreamConfig, ToolDefinition } from '../types';
+
+// A replay never captures anything, so the audio graph only has to exist
+const fakeNode = () => ({
+  gain: { value: 1, setValueAtTime() {}, setTargetAtTime() {}, cancelScheduledValues() {} },
+  fftSize: 0,
+  connect() {},
+  disconnect() {},
+});
+
+class FakeAudioContext {
+  state = 'running';
+  currentTime = 0;
+  sampleRate = 48000;
+  destination = fakeNode();
+  createGain() { return fakeNode(); }
+  createAnalyser() { return fakeNode(); }
+  resume() { return Promise.resolve(); }
+  close() { return Promise.resolve(); }
+}
+
+class FakeCloseEvent {
+  type: string;
+  code: number;
+  reason: string;
+  constructor(type: string, init: { code?: number; reason?: string } = {}) {
+    this.type = type;
+    this.code = init.code ?? 0;
+    this.reason = init.reason ?? '';
+  }
+}
+
+const CONFIG: StreamConfig = {
+  model: 'test-model',
+  systemInstruction: '',
+  voiceName: 'Puck',
+  persona: 'default',
+  commentaryInterval: 0,
+};
+
+const recordingOf = (...messages: object[]): SessionRecording => ({
+  version: SESSION_RECORDING_VERSION,
+  startedAt: '2026-01-01T00:00:00.000Z',
+  model: CONFIG.model,
+  config: {},
+  events: messages.map(payload => ({ t: 0, direction: 'in', kind: 'serverMessage', payload })),
+});
+
+describe('LiveSessionController replay', () => {
+  let controller: LiveSessionController;
+  let lookup: ToolDefinition;
+  let logs: string[];
+
+  beforeEach(() => {
+    vi.stubGlobal('window', { AudioContext: FakeAudioContext });
+    vi.stubGlobal('CloseEvent', FakeCloseEvent);
+    lookup = { declaration: { name: 'lookup' }, execute: vi.fn(() => ({ answer: 'live' })) };
+    controller = new LiveSessionController({ config: CONFIG, tools: [lookup], videoElement: {} as HTMLVideoElement });
+    logs = [];
+    controller.on('log', (entry: LogEntry) => logs.push(entry.message));
+  });
+
+  afterEach(() => {
+    controller.disconnect();
+    vi.unstubAllGlobals();
+  });
+
+  const replay = async (recording: SessionRecording) => {
+    const finished = new Promise<void>(resolve => controller.on('state', state => {
+      if (!state.isReplaying) resolve();
+    }));
+    await controller.replaySession(recording);
+    await finished;
+  };
+
+  it('plays a recorded goAway through once instead of handing over', async () => {
+    await replay(recordingOf({ setupComplete: {} }, { goAway: { timeLeft: '10s' } }, { setupComplete: {} }));
+
+    expect(logs.filter(message => message === 'Session Connected.')).toHaveLength(1);
+    expect(logs).toContain('Server requested disconnect (10s left) (recorded).');
+    expect(logs).toContain('Session Closed (Replay finished)');
+    expect(logs.some(message => message.startsWith('Resuming'))).toBe(false);
+  });
+
+  it('reports recorded tool results instead of running the tools again', async () => {
+    const recording = recordingOf({ toolCall: { functionCalls: [{ id: 'call-1', name: 'lookup', args: { q: 'x' } }] } });
+    recording.events.push({
+      t: 0,
+      direction: 'out',
+      kind: 'toolResponse',
+      payload: { functionResponses: [{ id: 'call-1', name: 'lookup', response: { result: { answer: 'recorded' } } }] },
+    });
+    const calls: ToolCallEvent[] = [];
+    controller.on('toolCall', event => calls.push(event));
+
+    await replay(recording);
+
+    expect(lookup.execute).not.toHaveBeenCalled();
+    expect(calls).toEqual([{ id: 'call-1', name: 'lookup', args: { q: 'x' }, result: { answer: 'recorded' } }]);
+  });
+});
@@ -0,0 +1,2350 @@
+import { LiveServerMessage, Modality, Content, Type } from '@google/genai';
+import { createPcmBlob, base64ToUint8Array } from '../utils/audioUtils';
+import { LogEntry, ToolDefinition, StreamConfig, VideoSourceType } from '../types';
+import { getPersona } from '../utils/personas';
+import { TtsProvider, TtsStatus, TtsWordTimestamps, createTtsProvider, resolveTtsProviderType, TTS_PROVIDER_LABELS } from '../utils/ttsProvider';
+import { TextSegmenter } from '../utils/textSegmenter';
+import { CaptionTrack, CaptionFrame } from '../utils/captionTrack';
+import { EmotionDelivery, NEUTRAL_DELIVERY, SENTIMENT_TAG_REGEX, Sentiment, parseSentimentTag, resolveEmotionMap } from '../utils/emotionDelivery';
+import { EventEmitter } from '../utils/eventEmitter';
+import { LiveTransport, LiveTransportSession, createLiveTransport } from '../utils/liveTransport';
+import { SessionRecorder, SessionRecording, ReplayLiveTransport, downloadSessionRecording, findRecordedToolResult } from '../utils/sessionRecorder';
+import { StreamingResampler, decodePcm, parsePcmMimeType } from '../utils/resampler';
+import { createCaptureNode, updateCaptureSettings, setCapturePushToTalk, CaptureSettings, CAPTURE_INPUT_MIC, CAPTURE_INPUT_SCREEN } from '../utils/captureWorklet';
+import { PlaybackQueue, PlaybackStats } from '../utils/playbackQueue';
+import { OutputSink } from '../utils/audioOutput';
+import { ConversationRecorder, downloadConversationRecording } from '../utils/conversationRecorder';
+import { RegionOfInterest, PixelRect, MIN_ROI_SIZE, clampRegionOfInterest, loadRegionOfInterest, saveRegionOfInterest, roiToPixels } from '../utils/regionOfInterest';
+import { CompositeSettings, DEFAULT_COMPOSITE_SETTINGS, drawComposite } from '../utils/frameCompositor';
+import { FrameSampler, FrameSamplerSettings, FrameSamplerStats, DEFAULT_VIDEO_FPS, DEFAULT_VIDEO_MAX_IDLE_MS, DEFAULT_VIDEO_DIFF_THRESHOLD } from '../utils/frameSampler';
+import { RedactionMask, applyRedactionMasks, loadRedactionMasks, saveRedactionMasks } from '../utils/redaction';
+import { FrameEncoder, FrameEncoderSettings, EncodedFrame, fitFrameSize, DEFAULT_VIDEO_FORMAT, DEFAULT_VIDEO_QUALITY, DEFAULT_VIDEO_MAX_WIDTH, DEFAULT_VIDEO_MAX_HEIGHT } from '../utils/frameEncoder';
+import { resolveMixer, envelopeTimeConstant } from '../utils/mixer';
+import { UsageTracker, UsageSnapshot, OutputMode, formatUsd } from '../utils/usageTracker';
+
+// Reconnect backoff: 1s, 2s, 4s ... capped at 15s, plus a little jitter
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 6;
+// After this many failed resumes, stop trusting the handle and start a fresh session
+const MAX_RESUME_ATTEMPTS = 2;
+// Number of completed turns replayed into a fresh session when resumption isn't possible
+const TRANSCRIPT_CARRY_TURNS = 20;
+
+// Frame sampling is capped at 1 FPS (no bursts) once a budget starts running low
+const BUDGET_VIDEO_FPS = 1;
+// Budget step-down thresholds (fraction of the tightest budget used)
+const BUDGET_LOW_FPS_AT = 0.7;
+const BUDGET_TEXT_MODE_AT = 0.85;
+const BUDGET_CHECK_INTERVAL_MS = 1000;
+const SIDECHAIN_POLL_MS = 20;
+// FILE source: how often the playback position is shared while playing, and how long a scrub must settle
+const FILE_POSITION_CONTEXT_INTERVAL_MS = 30000;
+const FILE_SEEK_SETTLE_MS = 500;
+// capture_screen_detail: full-resolution still, encoded well above the sampled-frame quality
+const DETAIL_CAPTURE_QUALITY = 0.92;
+// Live captions are re-evaluated against the playback clock this often while there is something to show
+const CAPTION_POLL_MS = 50;
+
+interface TranscriptTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// 0 = full quality, 1 = reduced frame rate, 2 = TEXT output, 3 = disconnected
+type BudgetLevel = 0 | 1 | 2 | 3;
+
+export interface LiveSessionState {
+  isConnected: boolean;
+  isReconnecting: boolean;
+  isMuted: boolean;
+  isOutputMuted: boolean;
+  isAiSpeaking: boolean;
+  isScreenAudioShared: boolean;
+  isScreenAudioMuted: boolean;
+  currentVideoSource: VideoSourceType;
+  // Screen share surface type ('monitor' | 'window' | 'browser'); ROIs are remembered per surface
+  displaySurface: string | null;
+  regionOfInterest: RegionOfInterest | null; // Crop applied to sent frames
+  redactionMasks: RedactionMask[]; // Painted over every frame before it is encoded
+  isVideoPaused: boolean; // No frames are sent; audio keeps flowing
+  audioDevices: MediaDeviceInfo[];
+  currentAudioDeviceId: string;
+  outputDevices: MediaDeviceInfo[];
+  currentOutputDeviceId: string; // AI speech ('' = system default)
+  monitorOutputDeviceId: string; // Optional second copy of AI speech ('' = off)
+  isRecordingSession: boolean;
+  // Mixed WebM (+ optional WAV stems) of what the user heard; separate from the traffic capture above
+  isRecordingConversation: boolean;
+  isReplaying: boolean;
+  // Mic audio is currently being sent (speech detected / push-to-talk held / continuous mode)
+  isMicGateOpen: boolean;
+  isPushToTalkHeld: boolean;
+}
+
+export interface LiveSessionVolumes {
+  mic: number;
+  screen: number;
+  ai: number; // Volume for AI Speech
+}
+
+export interface TranscriptEvent {
+  role: 'user' | 'model';
+  text: string; // Accumulated text of the current turn so far
+  isFinal: boolean;
+}
+
+export interface ToolCallEvent {
+  id?: string;
+  name: string;
+  args: unknown;
+  result: unknown;
+}
+
+export interface LiveSessionEvents {
+  state: LiveSessionState;
+  volume: LiveSessionVolumes;
+  log: LogEntry;
+  transcript: TranscriptEvent;
+  toolCall: ToolCallEvent;
+  sentiment: Sentiment; // As soon as the turn's tag shows up in the stream
+  usage: UsageSnapshot;
+  playback: PlaybackStats;
+  frames: FrameSamplerStats;
+  caption: CaptionFrame | null; // Null hides the captions
+}
+
+export interface LiveSessionControllerOptions {
+  config: StreamConfig;
+  tools?: ToolDefinition[];
+  // Overrides the transport selected by config.transport (e.g. for scripted tests)
+  transport?: LiveTransport;
+  // Element used to preview and sample video; a detached one is created if omitted (headless use)
+  videoElement?: HTMLVideoElement | null;
+}
+
+const EMPTY_PLAYBACK_STATS: PlaybackStats = {
+  chunks: 0,
+  underruns: 0,
+  lateChunks: 0,
+  bufferedMs: 0,
+  targetMs: 0,
+  totalQueuedMs: 0,
+};
+
+const EMPTY_FRAME_STATS: FrameSamplerStats = { sent: 0, skipped: 0, lastDiff: 0, isBursting: false };
+
+const INITIAL_STATE: LiveSessionState = {
+  isConnected: false,
+  isReconnecting: false,
+  isMuted: false,
+  isOutputMuted: false,
+  isAiSpeaking: false,
+  isScreenAudioShared: false,
+  isScreenAudioMuted: false,
+  currentVideoSource: VideoSourceType.NONE,
+  displaySurface: null,
+  regionOfInterest: null,
+  redactionMasks: [],
+  isVideoPaused: false,
+  audioDevices: [],
+  currentAudioDeviceId: "",
+  outputDevices: [],
+  currentOutputDeviceId: "",
+  monitorOutputDeviceId: "",
+  isRecordingSession: false,
+  isRecordingConversation: false,
+  isReplaying: false,
+  isMicGateOpen: false,
+  isPushToTalkHeld: false,
+};
+
+function computeRms(analyser: AnalyserNode): number {
+  const data = new Uint8Array(analyser.frequencyBinCount);
+  analyser.getByteTimeDomainData(data);
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    const v = (data[i] - 128) / 128;
+    sum += v * v;
+  }
+  return Math.sqrt(sum / data.length);
+}
+
+// m:ss (h:mm:ss past an hour) for playback positions
+function formatClock(seconds: number): string {
+  if (!isFinite(seconds)) return '--:--';
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+// captureStream is still prefixed in Firefox and missing from the DOM typings
+type CapturableMediaElement = HTMLVideoElement & { captureStream?(): MediaStream; mozCaptureStream?(): MediaStream };
+
+function isCapturable(element: HTMLVideoElement): element is CapturableMediaElement {
+  return 'captureStream' in element || 'mozCaptureStream' in element;
+}
+
+function captureMediaElement(element: HTMLVideoElement): MediaStream | null {
+  if (!isCapturable(element)) return null;
+  if (element.captureStream) return element.captureStream();
+  return element.mozCaptureStream?.() ?? null;
+}
+
+/**
+ * Owns one agent conversation: the Live session, the mic/screen capture graph,
+ * AI playback, the video frame sampler and the optional TTS voice.
+ * UI layers observe it through events and drive it through the public methods.
+ */
+export class LiveSessionController extends EventEmitter<LiveSessionEvents> {
+  private config: StreamConfig;
+  private tools: ToolDefinition[];
+  private transport?: LiveTransport;
+  private videoElement: HTMLVideoElement | null;
+  private state: LiveSessionState = { ...INITIAL_STATE, redactionMasks: loadRedactionMasks() };
+  private isInitialized = false;
+
+  // Audio context and processing
+  private audioContext: AudioContext | null = null;
+  private inputSource: MediaStreamAudioSourceNode | null = null;
+  private micGainNode: GainNode | null = null; // Controls Mic Volume/Mute
+  private analyser: AnalyserNode | null = null;
+
+  // Screen Audio
+  private screenAudioSource: MediaStreamAudioSourceNode | null = null;
+  private screenAnalyser: AnalyserNode | null = null;
+  private screenMuteGainNode: GainNode | null = null; // Controls manual screen mute
+  private screenFadeGainNode: GainNode | null = null; // Controls ducking
+
+  private captureNode: AudioWorkletNode | null = null; // Mixes, converts and chunks mic + screen audio off the main thread
+  private outputContext: AudioContext | null = null;
+  private outputGain: GainNode | null = null;
+  private speechGain: GainNode | null = null; // Emotion delivery gain for Gemini's native voice
+  private outputAnalyser: AnalyserNode | null = null; // Analyser for AI output
+  private outputSink: OutputSink | null = null;
+  private monitorSink: OutputSink | null = null;
+
+  // Jitter buffer for AI speech (Gemini and PCM TTS providers); also tracks what is playing for ducking / interruption
+  private playbackQueue: PlaybackQueue | null = null;
+  // One resampler per incoming stream so chunk boundaries stay continuous
+  private playbackResamplers = new Map<string, StreamingResampler>();
+
+  private session: LiveTransportSession | null = null;
+  private sessionPromise: Promise<LiveTransportSession> | null = null;
+  private videoInterval: number | null = null;
+  private videoTickMs = 0;
+  // Skips near-identical frames; created with the first video source, kept for the session's counters
+  private frameSampler: FrameSampler | null = null;
+  // Grabs and encodes sent frames in a Worker
+  private frameEncoder: FrameEncoder | null = null;
+  private volumeInterval: number | null = null;
+  private commentaryInterval: number | null = null;
+  private commentaryKey = "";
+  private mediaStream: MediaStream | null = null; // For Audio Input
+  // Video inputs. Both are live in CAMERA_SCREEN mode; switching modes keeps whichever is still needed
+  private screenStream: MediaStream | null = null;
+  private cameraStream: MediaStream | null = null;
+  private pipVideoElement: HTMLVideoElement | null = null; // Decodes the webcam while the screen is the main feed
+  // FILE source: a local clip played in the preview element; its audio stands in for screen audio
+  private mediaFile: { file: File; url: string; stream: MediaStream | null; cleanup: () => void } | null = null;
+
+  // Replaces Gemini's voice when a TTS provider is selected
+  private ttsProvider: TtsProvider | null = null;
+  // Providers that play audio themselves (speechSynthesis) report speaking state separately
+  private isTtsSpeaking = false;
+  // Buffers streamed model text to sentence/clause boundaries and cleans it up before TTS
+  private ttsSegmenter: TextSegmenter | null = null;
+  // The TTS provider couldn't be reached (or gave up reconnecting): use Gemini's own voice until the next conversation
+  private ttsDown = false;
+  // Sentiment tag of the current model turn, once seen, and how Gemini's own audio is voiced for it
+  private turnSentiment: Sentiment | null = null;
+  private nativeDelivery: EmotionDelivery = NEUTRAL_DELIVERY;
+  // Rate Gemini's audio is actually played at. Only changes while nothing is queued: switching
+  // mid-utterance would restart the resampler (a click) and drain the jitter buffer.
+  private nativePlaybackRate = 1;
+
+  // Word-timed captions of the AI's speech (TTS timestamps, or Gemini transcription timing)
+  private captions = new CaptionTrack();
+  private captionInterval: number | null = null;
+  private captionKey = '';
+
+  private duckingTimeout: number | null = null;
+  private isDucking = false;
+  // Sidechain ducking: latest AI output RMS, polled while enabled
+  private sidechainInterval: number | null = null;
+  private sidechainLevel = 0;
+
+  // Accumulate transcription text
+  private modelTranscription = "";
+  private userTranscription = "";
+  private turnStartTime: Date | null = null;
+  // Completed turns, replayed into a fresh session if the old one can't be resumed
+  private transcriptHistory: TranscriptTurn[] = [];
+
+  // Reconnect / Session Resumption
+  private resumptionHandle: string | null = null;
+  private reconnectAttempt = 0;
+  private reconnectTimeout: number | null = null;
+  // Set when the user (not the network) ends the session, so onclose doesn't try to recover
+  private intentionalClose = false;
+  // Incremented per session so callbacks from a replaced session are ignored
+  private sessionGeneration = 0;
+
+  // Session capture / replay: every session goes through the recorder tap
+  private sessionRecorder = new SessionRecorder();
+  private replayRecording: SessionRecording | null = null;
+  private conversationRecorder: ConversationRecorder | null = null;
+
+  // Token usage / cost estimate for the current conversation (spans reconnects)
+  private usageTracker = new UsageTracker();
+
+  // Budget guardrails
+  private conversationStartTime = 0;
+  private videoFramesSent = 0;
+  private budgetLevel: BudgetLevel = 0;
+  private budgetInterval: number | null = null;
+  // Set when the budget forced TTS provider users over to TEXT output
+  private budgetTextMode = false;
+
+  constructor(options: LiveSessionControllerOptions) {
+    super();
+    this.config = options.config;
+    this.tools = options.tools || [];
+    this.transport = options.transport;
+    this.videoElement = options.videoElement ?? null;
+  }
+
+  // --- Lifecycle ---
+
+  // Starts device tracking. Safe to call repeatedly.
+  init() {
+    if (this.isInitialized) return;
+    this.isInitialized = true;
+    this.loadAudioDevices();
+    navigator.mediaDevices.addEventListener('devicechange', this.loadAudioDevices);
+    window.addEventListener('keydown', this.handlePushToTalkKey);
+    window.addEventListener('keyup', this.handlePushToTalkKey);
+    window.addEventListener('blur', this.releasePushToTalk);
+  }
+
+  // Ends any session and stops device tracking. The controller can be init()-ed again afterwards.
+  dispose() {
+    if (this.isInitialized) {
+      navigator.mediaDevices.removeEventListener('devicechange', this.loadAudioDevices);
+      window.removeEventListener('keydown', this.handlePushToTalkKey);
+      window.removeEventListener('keyup', this.handlePushToTalkKey);
+      window.removeEventListener('blur', this.releasePushToTalk);
+      this.isInitialized = false;
+    }
+    this.disconnect();
+  }
+
+  getState(): LiveSessionState {
+    return this.state;
+  }
+
+  setConfig(config: StreamConfig) {
+    this.config = config;
+    // Apply real-time toggles (like ducking and mixer levels) immediately
+    this.applyMicGain();
+    this.syncSidechain();
+    this.updateDucking();
+    if (!(config.liveCaptions ?? true)) this.clearCaptions();
+    if (this.captureNode) {
+        updateCaptureSettings(this.captureNode, this.getCaptureSettings());
+    }
+    if (config.micMode !== 'pushToTalk') {
+        this.releasePushToTalk();
+    }
+    this.syncCommentaryTimer();
+    this.syncFrameSampler();
+  }
+
+  getUsage(): UsageSnapshot {
+    return this.usageTracker.getSnapshot(this.config.model, this.outputMode());
+  }
+
+  setTools(tools: ToolDefinition[]) {
+    this.tools = tools;
+  }
+
+  setTransport(transport: LiveTransport | undefined) {
+    this.transport = transport;
+  }
+
+  setVideoElement(element: HTMLVideoElement | null) {
+    this.videoElement = element;
+  }
+
+  // Optional on-screen element for the webcam picture-in-picture in CAMERA_SCREEN mode
+  setPipVideoElement(element: HTMLVideoElement | null) {
+    this.pipVideoElement = element;
+    if (element && this.screenStream && this.cameraStream && element.srcObject !== this.cameraStream) {
+        element.srcObject = this.cameraStream;
+        element.play().catch(e => console.error("Error playing webcam:", e));
+    }
+  }
+
+  private getCaptureSettings(): CaptureSettings {
+    return {
+      chunkMs: this.config.audioChunkMs,
+      micMode: this.config.micMode,
+      vadHangoverMs: this.config.vadHangoverMs,
+      vadPreRollMs: this.config.vadPreRollMs,
+    };
+  }
+
+  private useTtsVoice(): boolean {
+    return resolveTtsProviderType(this.config) !== 'gemini' && !this.ttsDown;
+  }
+
+  private outputMode(): OutputMode {
+    return (this.useTtsVoice() && (this.config.useTextMode || this.budgetTextMode)) ? 'TEXT' : 'AUDIO';
+  }
+
+  private emitUsage() {
+    this.emit('usage', this.getUsage());
+  }
+
+  private log(type: LogEntry['type'], message: string, extra: Partial<LogEntry> = {}) {
+    this.emit('log', { timestamp: new Date(), type, message, ...extra });
+  }
+
+  private setState(patch: Partial<LiveSessionState>) {
+    const changed = (Object.keys(patch) as (keyof LiveSessionState)[]).some(key => patch[key] !== this.state[key]);
+    if (!changed) return;
+    this.state = { ...this.state, ...patch };
+    this.emit('state', this.state);
+    this.syncCommentaryTimer();
+  }
+
+  private getVideoElement(): HTMLVideoElement {
+    if (!this.videoElement) {
+      // Headless: frames still need a decoding element, it just never gets attached to the DOM
+      this.videoElement = document.createElement('video');
+      this.videoElement.muted = true;
+      this.videoElement.playsInline = true;
+    }
+    return this.videoElement;
+  }
+
+  private getPipVideoElement(): HTMLVideoElement {
+    if (!this.pipVideoElement) {
+      this.pipVideoElement = document.createElement('video');
+      this.pipVideoElement.muted = true;
+      this.pipVideoElement.playsInline = true;
+    }
+    return this.pipVideoElement;
+  }
+
+  private getCompositeSettings(): CompositeSettings {
+    return {
+      layout: this.config.compositeLayout || DEFAULT_COMPOSITE_SETTINGS.layout,
+      pipPosition: this.config.pipPosition || DEFAULT_COMPOSITE_SETTINGS.pipPosition,
+      pipScale: this.config.pipScale || DEFAULT_COMPOSITE_SETTINGS.pipScale,
+    };
+  }
+
+  // --- Audio Graph ---
+
+  // Initialize Audio Contexts at the device's native rate (forcing 16k/24k breaks some Bluetooth headsets).
+  // Capture is resampled to 16kHz in the worklet; playback is resampled to the output context's rate.
+  private initAudioContexts() {
+    if (!this.audioContext) {
+      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    if (this.audioContext.state === 'suspended') {
+        this.audioContext.resume();
+    }
+
+    if (!this.outputContext) {
+      this.outputContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.outputGain = this.outputContext.createGain();
+      this.speechGain = this.outputContext.createGain();
+      this.speechGain.connect(this.outputGain);
+
+      // Setup Output Analyser
+      const analyser = this.outputContext.createAnalyser();
+      analyser.fftSize = 256;
+      this.outputAnalyser = analyser;
+
+      this.outputGain.connect(analyser);
+      this.outputSink = new OutputSink(this.outputContext, analyser, true);
+      if (this.state.currentOutputDeviceId) this.applyOutputDevice();
+      if (this.state.monitorOutputDeviceId) this.applyMonitorDevice();
+
+      this.playbackQueue = new PlaybackQueue(this.outputContext, this.speechGain, () => this.updateDucking());
+    }
+  }
+
+  // Manage Ducking: Lowers screen audio when AI is speaking.
+  // "Speaking" is either any AI buffer playing, or (sidechain mode) the AI output being louder than a threshold.
+  private updateDucking() {
+    const mixer = resolveMixer(this.config);
+    const isSpeaking = mixer.sidechain
+        ? this.sidechainLevel > mixer.sidechainThreshold
+        : (this.playbackQueue?.activeCount ?? 0) > 0 || this.isTtsSpeaking;
+
+    const applyDucking = (shouldDuck: boolean) => {
+         this.setState({ isAiSpeaking: shouldDuck });
+
+         if (!this.screenFadeGainNode || !this.audioContext) return;
+
+         const ctx = this.audioContext;
+         const enabled = this.config.enableDucking ?? true;
+         const targetGain = (shouldDuck && enabled) ? mixer.screenMixLevel * mixer.duckDepth : mixer.screenMixLevel;
+         const timeConstant = envelopeTimeConstant(shouldDuck ? mixer.attackMs : mixer.releaseMs);
+
+         this.screenFadeGainNode.gain.setTargetAtTime(targetGain, ctx.currentTime, timeConstant);
+
+         // Log state change for debugging
+         if (shouldDuck !== this.isDucking) {
+             this.isDucking = shouldDuck;
+             if (enabled && this.state.isScreenAudioShared) {
+                 this.log('system', shouldDuck ? 'Audio Ducking Active (Screen Lowered)' : 'Audio Ducking Inactive');
+             }
+         }
+    };
+
+    if (isSpeaking) {
+        // Immediate Duck, cancelling any pending release
+        if (this.duckingTimeout) {
+            clearTimeout(this.duckingTimeout);
+            this.duckingTimeout = null;
+        }
+        applyDucking(true);
+    } else if (this.isDucking || this.state.isAiSpeaking) {
+        // Delayed Unduck (Hold time) to prevent pumping
+        if (!this.duckingTimeout) {
+            this.duckingTimeout = window.setTimeout(() => {
+                this.duckingTimeout = null;
+                applyDucking(false);
+            }, mixer.holdMs);
+        }
+    } else {
+        // Not ducked: re-apply so mixer changes take effect immediately
+        applyDucking(false);
+    }
+  }
+
+  // Sidechain ducking: poll the AI output level (faster than the UI volume meter)
+  private syncSidechain() {
+    const enabled = resolveMixer(this.config).sidechain && !!this.outputAnalyser && !!this.captureNode;
+    if (enabled && !this.sidechainInterval) {
+        this.sidechainInterval = window.setInterval(() => {
+            this.sidechainLevel = this.outputAnalyser ? computeRms(this.outputAnalyser) : 0;
+            this.updateDucking();
+        }, SIDECHAIN_POLL_MS);
+    } else if (!enabled && this.sidechainInterval) {
+        clearInterval(this.sidechainInterval);
+        this.sidechainInterval = null;
+        this.sidechainLevel = 0;
+    }
+  }
+
+  private applyMicGain() {
+    if (this.micGainNode && this.audioContext) {
+        const gain = this.state.isMuted ? 0 : resolveMixer(this.config).micGain;
+        this.micGainNode.gain.setTargetAtTime(gain, this.audioContext.currentTime, 0.1);
+    }
+  }
+
+
+  // Route a display-capture audio track into the capture node: Source -> Analyser -> MuteGain -> FadeGain -> Capture (screen input)
+  private attachScreenAudio(stream: MediaStream): boolean {
+    if (!this.audioContext || !this.captureNode) return false;
+    const audioTracks = stream.getAudioTracks();
+    if (audioTracks.length === 0) return false;
+
+    const ctx = this.audioContext;
+    const screenStream = new MediaStream(audioTracks);
+    const screenSource = ctx.createMediaStreamSource(screenStream);
+    const screenAnalyser = ctx.createAnalyser();
+    screenAnalyser.fftSize = 256;
+
+    // Mute Node for manual screen mute
+    const screenMuteGain = ctx.createGain();
+    screenMuteGain.gain.value = this.state.isScreenAudioMuted ? 0 : 1;
+
+    // Fade Gain Node for Ducking; rests at the mixer's screen level
+    const mixer = resolveMixer(this.config);
+    const screenFadeGain = ctx.createGain();
+    screenFadeGain.gain.value = mixer.screenMixLevel;
+
+    screenSource.connect(screenAnalyser);
+    screenAnalyser.connect(screenMuteGain);
+    screenMuteGain.connect(screenFadeGain);
+    screenFadeGain.connect(this.captureNode, 0, CAPTURE_INPUT_SCREEN);
+
+    this.screenAudioSource = screenSource;
+    this.screenAnalyser = screenAnalyser;
+    this.screenMuteGainNode = screenMuteGain;
+    this.screenFadeGainNode = screenFadeGain;
+    this.setState({ isScreenAudioShared: true });
+    // Record screen audio as heard, before mute/ducking
+    this.conversationRecorder?.setSource('screen', screenAnalyser);
+
+    this.log('system', `System audio sharing active (Mix Level: ${Math.round(mixer.screenMixLevel * 100)}%${(this.config.enableDucking ?? true) ? ', with auto-ducking' : ''}).`);
+    return true;
+  }
+
+  private detachScreenAudio() {
+    this.conversationRecorder?.setSource('screen', null);
+    if (this.screenAudioSource) {
+        this.screenAudioSource.disconnect();
+        this.screenAudioSource = null;
+    }
+    if (this.screenAnalyser) {
+        this.screenAnalyser.disconnect();
+        this.screenAnalyser = null;
+    }
+    if (this.screenFadeGainNode) {
+        this.screenFadeGainNode.disconnect();
+        this.screenFadeGainNode = null;
+    }
+    if (this.screenMuteGainNode) {
+        this.screenMuteGainNode.disconnect();
+        this.screenMuteGainNode = null;
+    }
+    this.setState({ isScreenAudioShared: false });
+  }
+
+  private startVolumeMonitor() {
+    if (this.volumeInterval) clearInterval(this.volumeInterval);
+    let tick = 0;
+    this.volumeInterval = window.setInterval(() => {
+        // Jitter buffer telemetry changes slowly; every 500ms is plenty
+        if (++tick % 5 === 0) {
+            this.emit('playback', this.getPlaybackStats());
+        }
+        this.emit('volume', {
+            mic: this.analyser ? computeRms(this.analyser) : 0,
+            screen: this.screenAnalyser ? computeRms(this.screenAnalyser) : 0,
+            ai: this.outputAnalyser ? computeRms(this.outputAnalyser) : 0,
+        });
+    }, 100);
+  }
+
+  private stopAudioProcessing() {
+    if (this.volumeInterval) {
+        clearInterval(this.volumeInterval);
+        this.volumeInterval = null;
+    }
+
+    this.conversationRecorder?.setSource('mic', null);
+
+    // Stop all active nodes
+    this.playbackQueue?.flush();
+    this.playbackResamplers.clear();
+    this.clearCaptions();
+
+    if (this.captureNode) {
+      this.captureNode.port.onmessage = null;
+      this.captureNode.disconnect();
+      this.captureNode = null;
+    }
+    this.syncSidechain();
+    if (this.analyser) {
+        this.analyser.disconnect();
+        this.analyser = null;
+    }
+    if (this.micGainNode) {
+        this.micGainNode.disconnect();
+        this.micGainNode = null;
+    }
+    if (this.inputSource) {
+      this.inputSource.disconnect();
+      this.inputSource = null;
+    }
+    if (this.mediaStream) {
+      this.mediaStream.getTracks().forEach(track => track.stop());
+      this.mediaStream = null;
+    }
+
+    // Clean up screen audio
+    this.detachScreenAudio();
+
+    this.emit('volume', { mic: 0, screen: 0, ai: 0 });
+    this.setState({ isAiSpeaking: false, isMicGateOpen: false });
+    this.isDucking = false;
+    this.turnStartTime = null;
+  }
+
+  // Resample a chunk from one stream to the output context's rate and queue it for playback.
+  // Returns where it landed on the output clock (null if the resampler is still filling up).
+  private enqueuePlayback(stream: string, samples: Float32Array, sampleRate: number): { start: number; duration: number } | null {
+     if (!this.outputContext || !this.playbackQueue) return null;
+
+     const key = `${stream}@${sampleRate}`;
+     let resampler = this.playbackResamplers.get(key);
+     if (!resampler) {
+         resampler = new StreamingResampler(sampleRate, this.outputContext.sampleRate);
+         this.playbackResamplers.set(key, resampler);
+     }
+     const resampled = resampler.process(samples);
+     if (resampled.length === 0) return null;
+
+     const start = this.playbackQueue.enqueue(resampled);
+     return { start, duration: resampled.length / this.outputContext.sampleRate };
+  }
+
+  // Handle TTS Audio Playback (raw PCM in the format the provider requested)
+  private handleTtsAudio = (float32Data: Float32Array) => {
+     const format = this.ttsProvider?.outputFormat;
+     if (!format) return;
+     const span = this.enqueuePlayback('tts', float32Data, format.sampleRate);
+     this.captions.addAudio(float32Data.length / format.sampleRate, span);
+  };
+
+  private handleTtsTimestamps = (timestamps: TtsWordTimestamps) => {
+     if (!(this.config.liveCaptions ?? true)) return;
+     this.captions.addTimedWords(timestamps.words, timestamps.start, timestamps.end);
+     this.startCaptionTimer();
+  };
+
+  private handleTtsWordBoundary = (word: string) => {
+     if (!(this.config.liveCaptions ?? true) || !this.outputContext) return;
+     this.captions.addSpokenWord(word, this.outputContext.currentTime);
+     this.startCaptionTimer();
+  };
+
+  // The provider has sent all audio for the utterance
+  private handleTtsDone = () => {
+     this.playbackQueue?.endTurn();
+  };
+
+  private handleTtsSpeaking = (speaking: boolean) => {
+     this.isTtsSpeaking = speaking;
+     this.updateDucking();
+  };
+
+  private handleTtsStatus = (status: TtsStatus, attempt: number) => {
+     const name = this.ttsProvider?.name ?? 'TTS';
+     if (status === 'reconnecting') {
+         this.log('system', `${name} connection lost. Reconnecting (attempt ${attempt})...`);
+     } else if (status === 'connected') {
+         this.log('system', `Reconnected to ${name}.`);
+     } else {
+         this.fallBackFromTts(`${name} is unreachable after ${attempt} reconnect attempts.`);
+     }
+  };
+
+  private disconnectTts() {
+     // Whatever speaks next has a timeline of its own
+     this.captions.reset();
+     this.ttsProvider?.disconnect();
+     this.ttsProvider = null;
+     this.ttsSegmenter?.reset();
+     this.ttsSegmenter = null;
+     this.isTtsSpeaking = false;
+  }
+
+  // Hands speech over to Gemini's native voice for the rest of the conversation
+  private fallBackFromTts(reason: string) {
+     if (this.ttsDown) return;
+     this.ttsDown = true;
+     this.disconnectTts();
+     this.updateDucking();
+
+     if (!this.session || !this.state.isConnected) {
+         this.log('system', `${reason} Using Gemini's native voice.`);
+     } else if (this.config.useTextMode || this.budgetTextMode) {
+         // A TEXT-mode session has no audio at all, so hand over to an AUDIO one now
+         this.log('system', `${reason} Switching to Gemini's native voice (new session).`);
+         this.handoverSession();
+     } else {
+         // AUDIO mode: Gemini's audio is already arriving, it just wasn't being played
+         this.log('system', `${reason} Switching to Gemini's native voice.`);
+     }
+  }
+
+  private playGeminiAudio(base64Audio: string, mimeType: string | undefined) {
+    const format = parsePcmMimeType(mimeType);
+    const samples = decodePcm(base64ToUint8Array(base64Audio), format.encoding);
+    if (!this.playbackQueue?.activeCount) this.nativePlaybackRate = this.nativeDelivery.playbackRate;
+    // Resampling from a higher nominal rate plays the speech faster (and higher)
+    const span = this.enqueuePlayback('gemini', samples, format.sampleRate * this.nativePlaybackRate);
+    this.captions.addAudio(samples.length / format.sampleRate, span);
+  }
+
+  // --- Live Captions ---
+
+  private startCaptionTimer() {
+    if (this.captionInterval) return;
+    this.captionInterval = window.setInterval(() => this.emitCaption(), CAPTION_POLL_MS);
+  }
+
+  private emitCaption() {
+    const frame = this.outputContext ? this.captions.frame(this.outputContext.currentTime) : null;
+    const key = frame ? `${frame.spoken}:${frame.words.join(' ')}` : '';
+    if (key !== this.captionKey) {
+        this.captionKey = key;
+        this.emit('caption', frame);
+    }
+    if (!frame && this.captions.isEmpty && this.captionInterval) {
+        clearInterval(this.captionInterval);
+        this.captionInterval = null;
+    }
+  }
+
+  // Interrupted / audio stopped: the words that were cut off must not linger
+  private clearCaptions() {
+    this.captions.clearWords();
+    this.emitCaption();
+  }
+
+  // --- Emotion Delivery ---
+
+  // Looks for the turn's sentiment tag in the text so far; it leads the turn, so this usually fires on the first chunk
+  private detectSentiment() {
+    if (this.turnSentiment) return;
+    const sentiment = parseSentimentTag(this.modelTranscription);
+    if (!sentiment) return;
+    this.turnSentiment = sentiment;
+    this.applyDelivery(sentiment);
+    this.emit('sentiment', sentiment);
+  }
+
+  // Null resets to a neutral voice
+  private applyDelivery(sentiment: Sentiment | null) {
+    const enabled = this.config.emotionDelivery ?? true;
+    const delivery = sentiment && enabled ? resolveEmotionMap(this.config)[sentiment] : NEUTRAL_DELIVERY;
+    this.ttsProvider?.setDelivery(delivery);
+    // Rate / gain only shape Gemini's own voice; providers voice the emotion themselves
+    this.nativeDelivery = this.useTtsVoice() ? NEUTRAL_DELIVERY : delivery;
+    if (this.speechGain && this.outputContext) {
+        this.speechGain.gain.setTargetAtTime(this.nativeDelivery.gain, this.outputContext.currentTime, 0.05);
+    }
+  }
+
+  private stopPlayback() {
+    // Stop all currently playing audio immediately (short fade to avoid a click)
+    this.playbackQueue?.flush();
+    this.playbackResamplers.clear();
+    this.updateDucking();
+  }
+
+  getPlaybackStats(): PlaybackStats {
+    return this.playbackQueue?.getStats() ?? EMPTY_PLAYBACK_STATS;
+  }
+
+  // --- Push-to-Talk ---
+
+  // Holds the mic open while pressed (push-to-talk mode only). Also usable from on-screen controls.
+  setPushToTalk(pressed: boolean) {
+      if (pressed && this.config.micMode !== 'pushToTalk') return;
+      if (pressed === this.state.isPushToTalkHeld) return;
+      this.setState({ isPushToTalkHeld: pressed });
+      if (this.captureNode) {
+          setCapturePushToTalk(this.captureNode, pressed);
+      }
+  }
+
+  private releasePushToTalk = () => {
+      this.setPushToTalk(false);
+  };
+
+  private handlePushToTalkKey = (e: KeyboardEvent) => {
+      if (this.config.micMode !== 'pushToTalk') return;
+      if (e.code !== (this.config.pushToTalkKey || 'Space')) return;
+      // Don't hijack the key while the user is typing
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      e.preventDefault();
+      if (e.type === 'keydown' && e.repeat) return;
+      this.setPushToTalk(e.type === 'keydown');
+  };
+
+  // --- Devices ---
+
+  loadAudioDevices = async () => {
+      try {
+          const devices = await navigator.mediaDevices.enumerateDevices();
+          const mics = devices.filter(d => d.kind === 'audioinput');
+          const outputs = devices.filter(d => d.kind === 'audiooutput');
+          const patch: Partial<LiveSessionState> = { audioDevices: mics, outputDevices: outputs };
+          // Set default if not set and devices exist
+          if (mics.length > 0 && !this.state.currentAudioDeviceId) {
+              const defaultMic = mics.find(d => d.deviceId === 'default') || mics[0];
+              patch.currentAudioDeviceId = defaultMic.deviceId;
+          }
+          this.setState(patch);
+      } catch (e) {
+          console.error("Error loading audio devices:", e);
+      }
+  };
+
+  async changeAudioDevice(deviceId: string) {
+      this.setState({ currentAudioDeviceId: deviceId });
+
+      if (this.state.isConnected && this.audioContext && this.captureNode && this.analyser) {
+          // Re-connect audio stream with new device
+          try {
+              // Stop old tracks
+              if (this.mediaStream) {
+                  this.mediaStream.getTracks().forEach(t => t.stop());
+              }
+              // Disconnect old source
+              if (this.inputSource) {
+                  this.inputSource.disconnect();
+              }
+
+              const stream = await navigator.mediaDevices.getUserMedia({
+                  audio: { deviceId: { exact: deviceId } }
+              });
+              this.mediaStream = stream;
+
+              // Connect new source to existing analyser (via gain)
+              const source = this.audioContext.createMediaStreamSource(stream);
+
+              if (this.micGainNode) {
+                  source.connect(this.micGainNode);
+              }
+
+              this.inputSource = source;
+
+              const deviceLabel = this.state.audioDevices.find(d => d.deviceId === deviceId)?.label || deviceId;
+              this.log('system', `Switched mic to: ${deviceLabel}`);
+
+          } catch(e: any) {
+              this.log('system', `Error switching mic: ${e.message}`);
+          }
+      }
+  }
+
+  // Routes AI speech to a specific output (e.g. a virtual cable so it gets its own track in OBS)
+  async changeOutputDevice(deviceId: string) {
+      this.setState({ currentOutputDeviceId: deviceId });
+      await this.applyOutputDevice();
+  }
+
+  // Plays a second copy of AI speech on another device so it can be heard while the main output goes elsewhere
+  async changeMonitorDevice(deviceId: string) {
+      this.setState({ monitorOutputDeviceId: deviceId });
+      await this.applyMonitorDevice();
+  }
+
+  private outputDeviceLabel(deviceId: string) {
+      return this.state.outputDevices.find(d => d.deviceId === deviceId)?.label || deviceId || 'Default';
+  }
+
+  private async applyOutputDevice() {
+      if (!this.outputSink) return; // Applied when the output context is created
+      const deviceId = this.state.currentOutputDeviceId;
+      try {
+          await this.outputSink.setDevice(deviceId);
+          this.log('system', `AI speech output: ${this.outputDeviceLabel(deviceId)}`);
+      } catch (e: any) {
+          this.log('system', `Error switching output device: ${e.message}`);
+      }
+  }
+
+  private async applyMonitorDevice() {
+      if (!this.outputContext || !this.outputAnalyser) return;
+      const deviceId = this.state.monitorOutputDeviceId;
+      if (!deviceId) {
+          if (this.monitorSink) {
+              this.monitorSink.dispose();
+              this.monitorSink = null;
+              this.log('system', 'Monitor output off');
+          }
+          return;
+      }
+      if (!this.monitorSink) {
+          this.monitorSink = new OutputSink(this.outputContext, this.outputAnalyser, false);
+      }
+      try {
+          await this.monitorSink.setDevice(deviceId);
+          this.log('system', `Monitoring AI speech on: ${this.outputDeviceLabel(deviceId)}`);
+      } catch (e: any) {
+          this.monitorSink.dispose();
+          this.monitorSink = null;
+          this.log('system', `Error enabling monitor output: ${e.message}`);
+      }
+  }
+
+  // --- Video ---
+
+  private startVideoProcessing() {
+     if (this.videoInterval) clearInterval(this.videoInterval);
+
+     // The screen is the main feed whenever it's shared; the webcam then goes picture-in-picture.
+     // A media file plays from the element's own src instead.
+     const stream = this.screenStream ?? this.cameraStream;
+     if (!stream && !this.mediaFile) return;
+     const videoEl = this.getVideoElement();
+     const pipStream = this.screenStream ? this.cameraStream : null;
+     const pipEl = pipStream ? this.getPipVideoElement() : null;
+
+     // Re-attaching the same stream (e.g. after a reconnect) would restart playback, so skip it
+     if (stream && videoEl.srcObject !== stream) {
+         videoEl.srcObject = stream;
+         videoEl.play().catch(e => console.error("Error playing video:", e));
+     }
+     if (pipEl && pipEl.srcObject !== pipStream) {
+         pipEl.srcObject = pipStream;
+         pipEl.play().catch(e => console.error("Error playing webcam:", e));
+     }
+
+     const canvas = document.createElement('canvas');
+     const ctx = canvas.getContext('2d');
+
+     if (!this.frameSampler) {
+         this.frameSampler = new FrameSampler(this.getFrameSamplerSettings());
+     }
+     const sampler = this.frameSampler;
+     if (!this.frameEncoder) {
+         this.frameEncoder = new FrameEncoder();
+     }
+     const encoder = this.frameEncoder;
+     sampler.updateSettings(this.getFrameSamplerSettings());
+     // New source or new session: the model needs a fresh frame right away
+     sampler.resetReference();
+
+     // Tick at the burst rate; the sampler decides which ticks actually send a frame
+     this.videoTickMs = sampler.tickIntervalMs;
+     this.videoInterval = window.setInterval(async () => {
+        const sessionPromise = this.sessionPromise;
+        if (!sessionPromise || !ctx) return;
+        // Previous frame still encoding: drop this tick rather than queue behind it
+        if (encoder.isBusy || this.state.isVideoPaused) return;
+
+        // videoWidth stays 0 for audio-only files: nothing to send
+        if(videoEl.readyState === videoEl.HAVE_ENOUGH_DATA && videoEl.videoWidth > 0) {
+            const roi = this.state.regionOfInterest;
+            const region = roi ? roiToPixels(roi, videoEl.videoWidth, videoEl.videoHeight) : null;
+            const skippedBefore = sampler.getStats().skipped;
+
+            // Downscale for performance: the full frame goes out at half size. A crop gets the same
+            // pixel budget, so a small region is sent at (up to) native resolution.
+            const source = region ?? roiToPixels(null, videoEl.videoWidth, videoEl.videoHeight);
+            const pixelBudget = videoEl.videoWidth * videoEl.videoHeight * 0.25;
+            const scale = Math.min(1, Math.sqrt(pixelBudget / (source.sw * source.sh)));
+
+            const encoding = this.getFrameEncoderSettings();
+            const masks = this.state.redactionMasks;
+            let frame: EncodedFrame | null;
+            if (pipEl) {
+                // Composite first so a change in either feed (game or face) counts as a new scene
+                const layout = drawComposite(canvas, ctx, videoEl, source, scale, pipEl, this.getCompositeSettings());
+                applyRedactionMasks(ctx, masks, videoEl.videoWidth, videoEl.videoHeight, source, layout.main);
+                if (!sampler.shouldSend(canvas)) {
+                    if (sampler.getStats().skipped !== skippedBefore) this.emit('frames', sampler.getStats());
+                    return;
+                }
+                const size = fitFrameSize(canvas.width, canvas.height, encoding);
+                frame = await encoder.encode(canvas, roiToPixels(null, canvas.width, canvas.height), size.width, size.height, encoding);
+            } else {
+                if (!sampler.shouldSend(videoEl, region)) {
+                    if (sampler.getStats().skipped !== skippedBefore) this.emit('frames', sampler.getStats());
+                    return;
+                }
+                const size = fitFrameSize(source.sw * scale, source.sh * scale, encoding);
+                if (masks.length > 0) {
+                    frame = await this.encodeRedacted(encoder, canvas, ctx, videoEl, source, size.width, size.height, encoding);
+                } else {
+                    frame = await encoder.encode(videoEl, source, size.width, size.height, encoding);
+                }
+            }
+            // Encoding failed, or the session / source changed while it ran
+            if (!frame || this.sessionPromise !== sessionPromise || this.frameEncoder !== encoder) return;
+            const media = frame;
+
+            sessionPromise.then(session => {
+                session.sendRealtimeInput({ media });
+                // Only frames that reached the session count (stats, budget)
+                sampler.markSent();
+                this.videoFramesSent++;
+                this.emit('frames', sampler.getStats());
+            }).catch(() => {});
+        }
+     }, this.videoTickMs);
+  }
+
+  private getFrameSamplerSettings(): FrameSamplerSettings {
+    const lowBudget = this.budgetLevel >= 1;
+    return {
+        fps: lowBudget ? this.getBudgetVideoFps() : this.getConfiguredVideoFps(),
+        maxIdleMs: this.config.videoMaxIdleMs || DEFAULT_VIDEO_MAX_IDLE_MS,
+        diffThreshold: this.config.videoDiffThreshold ?? DEFAULT_VIDEO_DIFF_THRESHOLD,
+        allowBurst: !lowBudget,
+    };
+  }
+
+  private getConfiguredVideoFps(): number {
+    return Math.max(0.1, this.config.videoFps || DEFAULT_VIDEO_FPS);
+  }
+
+  // Never raises a rate the user already set below the budget cap
+  private getBudgetVideoFps(): number {
+    return Math.min(BUDGET_VIDEO_FPS, this.getConfiguredVideoFps());
+  }
+
+  // Masks have to be painted in before the frame is handed to the encoder
+  private encodeRedacted(
+    encoder: FrameEncoder,
+    canvas: HTMLCanvasElement,
+    ctx: CanvasRenderingContext2D,
+    videoEl: HTMLVideoElement,
+    source: PixelRect,
+    width: number,
+    height: number,
+    settings: FrameEncoderSettings
+  ): Promise<EncodedFrame | null> {
+    canvas.width = width;
+    canvas.height = height;
+    ctx.drawImage(videoEl, source.sx, source.sy, source.sw, source.sh, 0, 0, width, height);
+    applyRedactionMasks(ctx, this.state.redactionMasks, videoEl.videoWidth, videoEl.videoHeight, source, { x: 0, y: 0, width, height });
+    return encoder.encode(canvas, roiToPixels(null, width, height), width, height, settings);
+  }
+
+  setRedactionMasks(masks: RedactionMask[]) {
+    saveRedactionMasks(masks);
+    this.setState({ redactionMasks: masks });
+    this.frameSampler?.resetReference();
+  }
+
+  // Stops sending frames without touching the sources or the audio session
+  setVideoPaused(paused: boolean) {
+    if (paused === this.state.isVideoPaused) return;
+    this.setState({ isVideoPaused: paused });
+    // Resuming: send a fresh frame right away
+    if (!paused) this.frameSampler?.resetReference();
+    const message = paused
+        ? 'The user paused the video feed. You cannot see their screen or camera until they resume it; do not comment on the last frame you saw.'
+        : 'The user resumed the video feed.';
+    if (this.state.isConnected) {
+        this.sendText(`[CONTEXT] ${message}`);
+    } else {
+        this.log('system', paused ? 'Video feed paused.' : 'Video feed resumed.');
+    }
+  }
+
+  private getFrameEncoderSettings(): FrameEncoderSettings {
+    return {
+        format: this.config.videoFormat || DEFAULT_VIDEO_FORMAT,
+        quality: this.config.videoQuality ?? DEFAULT_VIDEO_QUALITY,
+        maxWidth: this.config.videoMaxWidth || DEFAULT_VIDEO_MAX_WIDTH,
+        maxHeight: this.config.videoMaxHeight || DEFAULT_VIDEO_MAX_HEIGHT,
+    };
+  }
+
+  // Apply sampling changes live; the timer only restarts if the tick rate changed
+  private syncFrameSampler() {
+    if (!this.frameSampler) return;
+    this.frameSampler.updateSettings(this.getFrameSamplerSettings());
+    if (this.videoInterval && this.frameSampler.tickIntervalMs !== this.videoTickMs) {
+        this.startVideoProcessing();
+    }
+  }
+
+  // Crops sent frames to part of the screen share (null = whole frame). Remembered for this surface type.
+  setRegionOfInterest(roi: RegionOfInterest | null) {
+    const surface = this.state.displaySurface;
+    if (!surface) return;
+    let next = roi ? clampRegionOfInterest(roi) : null;
+    if (next && (next.width < MIN_ROI_SIZE || next.height < MIN_ROI_SIZE)) next = null;
+
+    saveRegionOfInterest(surface, next);
+    this.setState({ regionOfInterest: next });
+    this.frameSampler?.resetReference();
+    this.log('system', next
+        ? `Cropping ${surface} share to ${Math.round(next.width * 100)}% x ${Math.round(next.height * 100)}% region.`
+        : `Sending full ${surface} share.`);
+  }
+
+  // Built-in tools, declared alongside the user's
+  private getBuiltinTools(): ToolDefinition[] {
+    return [{
+        declaration: {
+            name: 'capture_screen_detail',
+            description: 'Captures a full-resolution still of the current video feed and sends it to you as an image. Use it when the regular frames are too small to read text, code or numbers. Optionally zoom into a region given as fractions (0-1) of the frame you currently see.',
+            parameters: {
+                type: Type.OBJECT,
+                properties: {
+                    x: { type: Type.NUMBER, description: 'Left edge of the region, 0-1.' },
+                    y: { type: Type.NUMBER, description: 'Top edge of the region, 0-1.' },
+                    width: { type: Type.NUMBER, description: 'Region width, 0-1.' },
+                    height: { type: Type.NUMBER, description: 'Region height, 0-1.' },
+                },
+            },
+        },
+        execute: (args: Partial<RegionOfInterest>) => this.captureScreenDetail(args),
+    }];
+  }
+
+  // Sends a native-resolution still of the main feed (within the user's crop, and the model's requested region)
+  private async captureScreenDetail(args: Partial<RegionOfInterest>) {
+    const session = this.session;
+    const videoEl = this.videoElement;
+    if (!session) return { error: 'Not connected' };
+    if (this.state.currentVideoSource === VideoSourceType.NONE || !videoEl || !videoEl.videoWidth) {
+        return { error: 'No video source is active' };
+    }
+    if (this.state.isVideoPaused) return { error: 'The user has paused the video feed' };
+
+    // The model sees the user's crop, so its region is relative to that
+    const base = roiToPixels(this.state.regionOfInterest, videoEl.videoWidth, videoEl.videoHeight);
+    let rect = base;
+    if ([args.x, args.y, args.width, args.height].some(v => typeof v === 'number')) {
+        const region = clampRegionOfInterest({ x: args.x ?? 0, y: args.y ?? 0, width: args.width ?? 1, height: args.height ?? 1 });
+        if (region.width < MIN_ROI_SIZE || region.height < MIN_ROI_SIZE) return { error: 'Region is too small' };
+        rect = {
+            sx: base.sx + Math.round(region.x * base.sw),
+            sy: base.sy + Math.round(region.y * base.sh),
+            sw: Math.max(1, Math.round(region.width * base.sw)),
+            sh: Math.max(1, Math.round(region.height * base.sh)),
+        };
+    }
+
+    // Own encoder: the sampled-frame one may be busy, and it's torn down on source switches
+    const encoder = new FrameEncoder();
+    const settings: FrameEncoderSettings = {
+        format: this.config.videoFormat || DEFAULT_VIDEO_FORMAT,
+        quality: DETAIL_CAPTURE_QUALITY,
+        maxWidth: rect.sw,
+        maxHeight: rect.sh,
+    };
+    try {
+        const hasMasks = this.state.redactionMasks.length > 0;
+        const canvas = document.createElement('canvas');
+        const ctx = hasMasks ? canvas.getContext('2d') : null;
+        // Never send an unmasked frame
+        if (hasMasks && !ctx) return { error: 'Cannot apply redaction masks' };
+        const frame = ctx
+            ? await this.encodeRedacted(encoder, canvas, ctx, videoEl, rect, rect.sw, rect.sh, settings)
+            : await encoder.encode(videoEl, rect, rect.sw, rect.sh, settings);
+        if (!frame) return { error: 'Failed to capture the frame' };
+        if (this.session !== session) return { error: 'Session ended during capture' };
+
+        session.sendClientContent({
+            turns: [{
+                role: 'user',
+                parts: [
+                    { text: `[CONTEXT] Full-resolution capture (${rect.sw}x${rect.sh}) requested via capture_screen_detail.` },
+                    { inlineData: frame },
+                ]
+            }],
+            turnComplete: false
+        });
+        this.videoFramesSent++;
+        return { result: `Captured a ${rect.sw}x${rect.sh} still; it has been sent as an image.` };
+    } finally {
+        encoder.dispose();
+    }
+  }
+
+  getFrameStats(): FrameSamplerStats {
+    return this.frameSampler?.getStats() ?? EMPTY_FRAME_STATS;
+  }
+
+  private stopVideoProcessing() {
+    if (this.videoInterval) {
+      clearInterval(this.videoInterval);
+      this.videoInterval = null;
+    }
+    this.frameEncoder?.dispose();
+    this.frameEncoder = null;
+    if (this.videoElement) {
+        this.videoElement.srcObject = null;
+    }
+    this.stopScreenStream();
+    this.stopCameraStream();
+    this.stopMediaFile();
+  }
+
+  // Screen audio comes from the display capture, or from the media file standing in for it
+  private getScreenAudioStream(): MediaStream | null {
+    return this.screenStream ?? this.mediaFile?.stream ?? null;
+  }
+
+  private startMediaFile(file: File) {
+    this.stopMediaFile();
+    const videoEl = this.getVideoElement();
+    const url = URL.createObjectURL(file);
+    videoEl.srcObject = null;
+    videoEl.src = url;
+    // The user hears the file straight from the element, like they hear a shared screen
+    videoEl.muted = false;
+
+    // Capture isn't affected by the element's mute/volume; tracks appear once playback starts
+    const stream = captureMediaElement(videoEl);
+    if (stream) {
+        stream.onaddtrack = () => {
+            if (this.state.isConnected && this.captureNode && !this.state.isScreenAudioShared) {
+                this.attachScreenAudio(stream);
+            }
+        };
+    } else {
+        // Frames still go out from the element; only the soundtrack is lost
+        this.log('system', `This browser can't capture audio from "${file.name}". The model will see it but not hear it.`);
+    }
+
+    const position = () => `${formatClock(videoEl.currentTime)} / ${formatClock(videoEl.duration)}`;
+    let seekTimer: number | null = null;
+    let positionTimer: number | null = null;
+    let lastPositionAt = 0;
+
+    const onSeeked = () => {
+        // Scrubbing fires a burst of seeks; report where the user settled
+        if (seekTimer) clearTimeout(seekTimer);
+        seekTimer = window.setTimeout(() => {
+            seekTimer = null;
+            this.sendFileContext(`User seeked "${file.name}" to ${position()}.`);
+        }, FILE_SEEK_SETTLE_MS);
+    };
+    const onPause = () => {
+        // Pausing at the end is reported by 'ended'; a pause while seeking isn't a real pause
+        if (videoEl.ended || videoEl.seeking) return;
+        this.sendFileContext(`User paused "${file.name}" at ${position()}.`);
+    };
+    const onPlay = () => {
+        if (videoEl.currentTime > 0.5) this.sendFileContext(`User resumed "${file.name}" at ${position()}.`);
+    };
+    const onEnded = () => this.sendFileContext(`"${file.name}" finished playing.`);
+    const onLoaded = () => {
+        const kind = videoEl.videoWidth > 0 ? 'video' : 'audio';
+        this.sendFileContext(`User is playing a local ${kind} file "${file.name}" (${formatClock(videoEl.duration)}). Watch/listen along with them.`);
+    };
+
+    videoEl.addEventListener('seeked', onSeeked);
+    videoEl.addEventListener('pause', onPause);
+    videoEl.addEventListener('play', onPlay);
+    videoEl.addEventListener('ended', onEnded);
+    videoEl.addEventListener('loadedmetadata', onLoaded);
+    positionTimer = window.setInterval(() => {
+        if (videoEl.paused || Date.now() - lastPositionAt < FILE_POSITION_CONTEXT_INTERVAL_MS) return;
+        lastPositionAt = Date.now();
+        this.sendFileContext(`Playback position of "${file.name}": ${position()}.`);
+    }, 1000);
+    lastPositionAt = Date.now();
+
+    videoEl.play().catch(e => console.error("Error playing media file:", e));
+
+    this.mediaFile = {
+        file,
+        url,
+        stream,
+        cleanup: () => {
+            videoEl.removeEventListener('seeked', onSeeked);
+            videoEl.removeEventListener('pause', onPause);
+            videoEl.removeEventListener('play', onPlay);
+            videoEl.removeEventListener('ended', onEnded);
+            videoEl.removeEventListener('loadedmetadata', onLoaded);
+            if (seekTimer) clearTimeout(seekTimer);
+            if (positionTimer) clearInterval(positionTimer);
+            if (stream) stream.onaddtrack = null;
+            videoEl.pause();
+            videoEl.removeAttribute('src');
+            videoEl.load();
+            videoEl.muted = true;
+        },
+    };
+  }
+
+  private stopMediaFile() {
+    if (!this.mediaFile) return;
+    const { url, cleanup } = this.mediaFile;
+    this.mediaFile = null;
+    cleanup();
+    URL.revokeObjectURL(url);
+    this.detachScreenAudio();
+  }
+
+  private sendFileContext(message: string) {
+    if (this.state.isConnected) {
+        this.sendText(`[CONTEXT] ${message}`);
+    } else {
+        this.log('system', message);
+    }
+  }
+
+  private stopStreamTracks(stream: MediaStream) {
+    stream.getTracks().forEach(track => {
+        // Remove listener to prevent loops if stop() triggers onended
+        track.onended = null;
+        track.stop();
+    });
+  }
+
+  private stopScreenStream() {
+    if (this.screenStream) {
+        this.stopStreamTracks(this.screenStream);
+        this.screenStream = null;
+        // Cleanup Audio Nodes for Screen (a media file may be feeding them otherwise)
+        this.detachScreenAudio();
+        this.emit('volume', { mic: 0, screen: 0, ai: 0 });
+    }
+    this.setState({ displaySurface: null, regionOfInterest: null });
+  }
+
+  private stopCameraStream() {
+    if (this.cameraStream) {
+        this.stopStreamTracks(this.cameraStream);
+        this.cameraStream = null;
+    }
+    if (this.pipVideoElement) {
+        this.pipVideoElement.srcObject = null;
+    }
+  }
+
+  // `file` picks the clip for VideoSourceType.FILE; without one, the last loaded clip is reused
+  async setVideoSource(type: VideoSourceType, file?: File): Promise<void> {
+      const needsScreen = type === VideoSourceType.SCREEN || type === VideoSourceType.CAMERA_SCREEN;
+      const needsCamera = type === VideoSourceType.CAMERA || type === VideoSourceType.CAMERA_SCREEN;
+      const mediaFile = type === VideoSourceType.FILE ? (file ?? this.mediaFile?.file ?? null) : null;
+
+      // Release what the new mode doesn't use; keep the rest so switching doesn't re-prompt
+      if (this.videoInterval) {
+          clearInterval(this.videoInterval);
+          this.videoInterval = null;
+      }
+      if (!needsScreen) this.stopScreenStream();
+      if (!needsCamera) this.stopCameraStream();
+      if (!mediaFile || mediaFile !== this.mediaFile?.file) this.stopMediaFile();
+
+      if (type === VideoSourceType.FILE && !mediaFile) {
+          this.log('system', 'Video Error: no media file selected.');
+          this.setState({ currentVideoSource: VideoSourceType.NONE });
+          return;
+      }
+
+      if (type === VideoSourceType.NONE) {
+          if (this.videoElement) this.videoElement.srcObject = null;
+          this.setState({ currentVideoSource: VideoSourceType.NONE });
+          return;
+      }
+
+      try {
+          // Check audio context state
+          if (this.audioContext && this.audioContext.state === 'suspended') {
+              await this.audioContext.resume();
+          }
+
+          if (needsCamera && !this.cameraStream) {
+              const stream = await navigator.mediaDevices.getUserMedia({ video: true });
+              this.cameraStream = stream;
+              stream.getVideoTracks()[0].onended = () => {
+                  if (this.cameraStream?.id !== stream.id) return;
+                  this.setVideoSource(this.state.currentVideoSource === VideoSourceType.CAMERA_SCREEN ? VideoSourceType.SCREEN : VideoSourceType.NONE);
+              };
+          }
+
+          if (mediaFile && !this.mediaFile) {
+              this.startMediaFile(mediaFile);
+          }
+
+          let newScreenStream: MediaStream | null = null;
+          if (needsScreen && !this.screenStream) {
+              // Request Audio for Screen Share
+              newScreenStream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+              const stream = newScreenStream;
+              this.screenStream = stream;
+              const surface = stream.getVideoTracks()[0]?.getSettings().displaySurface || 'monitor';
+              this.setState({ displaySurface: surface, regionOfInterest: loadRegionOfInterest(surface) });
+
+              // Handle stream stop (user clicks "Stop Sharing" in browser UI)
+              stream.getVideoTracks()[0].onended = () => {
+                  // Only stop if this is still the active stream
+                  if (this.screenStream?.id !== stream.id) return;
+                  this.setVideoSource(this.state.currentVideoSource === VideoSourceType.CAMERA_SCREEN ? VideoSourceType.CAMERA : VideoSourceType.NONE);
+              };
+          }
+
+          this.startVideoProcessing();
+          this.setState({ currentVideoSource: type });
+
+          if (newScreenStream) {
+              // Connect Audio if we are already connected to Gemini
+              if (this.state.isConnected && this.audioContext && this.captureNode) {
+                 if (this.attachScreenAudio(newScreenStream)) {
+                     // Screen audio is now part of the mix
+                 } else {
+                     this.setState({ isScreenAudioShared: false });
+                     this.log('system', 'Screen shared without audio.');
+
+                     // Inject context message to inform model about the visual stream
+                     this.sendText("[CONTEXT] User started sharing their screen (Video Only). You can see the visual content.");
+                 }
+              } else if (this.state.isConnected) {
+                  // Even if audio not ready or connected, try to notify
+                   this.sendText("[CONTEXT] User started sharing their screen (Video Only).");
+              }
+          }
+          if (type === VideoSourceType.CAMERA_SCREEN && this.state.isConnected) {
+              this.sendText("[CONTEXT] The video now shows the user's screen with their webcam inset. React to both the content and the user's face.");
+          }
+
+      } catch (e: any) {
+          this.log('system', `Video Error: ${e.message}`);
+          this.stopVideoProcessing();
+          this.setState({ currentVideoSource: VideoSourceType.NONE });
+      }
+  }
+
+  // --- Text Injection / Auto-Poke ---
+
+  // Safer Text Injection Logic
+  sendText(text: string) {
+      if (this.session) {
+          try {
+              this.session.sendClientContent({
+                  turns: [{
+                      role: 'user',
+                      parts: [{ text }]
+                  }],
+                  turnComplete: true
+              });
+              this.log('user', `(Text Command): ${text}`);
+          } catch(e: any) {
+              this.log('system', `Failed to send text: ${e.message}`);
+          }
+      }
+  }
+
+  // Automatic Commentary Interval (Auto-Poke): runs while connected with a video source
+  private syncCommentaryTimer() {
+    const active = this.state.isConnected && this.state.currentVideoSource !== VideoSourceType.NONE;
+    const intervalSeconds = this.config.commentaryInterval || 30;
+    const key = active ? `${intervalSeconds}` : "";
+    if (key === this.commentaryKey) return;
+    this.commentaryKey = key;
+
+    if (this.commentaryInterval) {
+        clearInterval(this.commentaryInterval);
+        this.commentaryInterval = null;
+    }
+    if (!active) return;
+
+    this.commentaryInterval = window.setInterval(() => {
+        // Don't interrupt if the AI is already speaking
+        if (this.state.isAiSpeaking) return;
+
+        this.sendText("[AUTO-POKE] Periodic Commentary Trigger. Look at the screen and comment.");
+
+    }, intervalSeconds * 1000);
+  }
+
+  // --- Transcripts ---
+
+  // Record a finished turn so it can be carried into a fresh session after a drop
+  private pushTranscriptTurn(role: TranscriptTurn['role'], text: string) {
+      this.transcriptHistory.push({ role, text });
+      if (this.transcriptHistory.length > TRANSCRIPT_CARRY_TURNS) {
+          this.transcriptHistory.splice(0, this.transcriptHistory.length - TRANSCRIPT_CARRY_TURNS);
+      }
+  }
+
+  // Log whatever was accumulated for the current turn (used on turnComplete and when the socket drops mid-turn)
+  private commitPendingTranscripts() {
+      let modelText = this.modelTranscription.trim();
+
+      // Extract Sentiment Tag if present
+      const sentiment = parseSentimentTag(modelText) ?? undefined;
+      if (sentiment) {
+          // Remove tag from display text
+          modelText = modelText.replace(SENTIMENT_TAG_REGEX, '').trim();
+      }
+      // Already announced when it was first streamed
+      const announced = this.turnSentiment !== null;
+      this.turnSentiment = null;
+
+      if (modelText) {
+          // Use the captured start time to reflect reaction speed, or fallback to now
+          const logTime = this.turnStartTime || new Date();
+          this.emit('log', { timestamp: logTime, type: 'model', message: modelText, sentiment });
+          this.emit('transcript', { role: 'model', text: modelText, isFinal: true });
+          if (sentiment && !announced) {
+              this.emit('sentiment', sentiment);
+          }
+          this.pushTranscriptTurn('model', modelText);
+          this.modelTranscription = "";
+          this.turnStartTime = null;
+      }
+
+      // Log User Input
+      const userText = this.userTranscription.trim();
+      if (userText) {
+          this.log('user', userText);
+          this.emit('transcript', { role: 'user', text: userText, isFinal: true });
+          this.pushTranscriptTurn('user', userText);
+          this.userTranscription = "";
+      }
+  }
+
+  // --- Reconnect ---
+
+  private clearReconnectTimer() {
+      if (this.reconnectTimeout) {
+          clearTimeout(this.reconnectTimeout);
+          this.reconnectTimeout = null;
+      }
+  }
+
+  // Tear down everything bound to the dead session but keep the user's video stream,
+  // so the pipelines can be rebuilt against the replacement session.
+  private teardownForReconnect() {
+      this.commitPendingTranscripts();
+      this.stopAudioProcessing();
+
+      if (this.videoInterval) {
+          clearInterval(this.videoInterval);
+          this.videoInterval = null;
+      }
+
+      this.disconnectTts();
+
+      this.session = null;
+      this.sessionPromise = null;
+  }
+
+  private scheduleReconnect(reason: string) {
+      // onclose and a rejected connect can both report the same failure
+      if (this.reconnectTimeout) return;
+
+      const maxAttempts = this.config.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS;
+      if (this.reconnectAttempt >= maxAttempts) {
+          this.log('system', `Reconnect failed after ${maxAttempts} attempts. Giving up.`);
+          this.setState({ isReconnecting: false });
+          this.disconnect();
+          return;
+      }
+
+      this.reconnectAttempt++;
+      const attempt = this.reconnectAttempt;
+      const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1)) + Math.random() * 250;
+
+      this.setState({ isReconnecting: true });
+      this.log('system', `${reason} Reconnecting in ${(delay / 1000).toFixed(1)}s (attempt ${attempt}/${maxAttempts})...`);
+
+      this.reconnectTimeout = window.setTimeout(() => {
+          this.reconnectTimeout = null;
+          if (this.intentionalClose) return;
+          // The resumption handle may have expired; fall back to a fresh session with carried transcript
+          if (attempt > MAX_RESUME_ATTEMPTS && this.resumptionHandle) {
+              this.resumptionHandle = null;
+              this.log('system', 'Session resumption failed. Starting a fresh session with transcript carry-over.');
+          }
+          this.openSession();
+      }, delay);
+  }
+
+  // Server asked us to leave (GoAway) - swap to a new session right away using the latest resumption handle
+  private handoverSession() {
+      // A new session would start the recording over from the top
+      if (this.state.isReplaying) {
+          this.log('system', 'Replay keeps its session; skipping the handover.');
+          return;
+      }
+      const oldSession = this.session;
+      // Bump generation first so the old session's onclose is ignored
+      this.sessionGeneration++;
+      this.teardownForReconnect();
+      try {
+          oldSession?.close();
+      } catch (e) { console.error(e); }
+
+      this.setState({ isReconnecting: true });
+      this.openSession();
+  }
+
+  // Replays take priority, then an injected transport, then whatever config.transport selects
+  private resolveTransport(): LiveTransport {
+      const base = this.replayRecording
+          ? new ReplayLiveTransport(this.replayRecording)
+          : (this.transport ?? createLiveTransport(this.config));
+      return this.sessionRecorder.wrap(base);
+  }
+
+  // --- Session ---
+
+  private async openSession() {
+    const generation = ++this.sessionGeneration;
+    const isCurrent = () => generation === this.sessionGeneration;
+    const isResuming = this.state.isReconnecting;
+    // A replay plays back recorded server messages; nothing is captured or sent
+    const isReplay = this.replayRecording !== null;
+    const config = this.config;
+    const resumptionHandle = this.resumptionHandle;
+    // A socket that never opened reports its failure twice (rejected connect, then onclose)
+    let opened = false;
+    let failureHandled = false;
+    const failAttempt = (reason: string) => {
+        if (failureHandled) return;
+        failureHandled = true;
+        if (this.state.isReconnecting && !this.intentionalClose) {
+            this.teardownForReconnect();
+            this.scheduleReconnect(`Reconnect failed: ${reason}.`);
+            return;
+        }
+        this.log('system', `Connection Failed: ${reason}`);
+        this.setState({ isConnected: false });
+    };
+
+    try {
+      this.initAudioContexts();
+
+      // Initialize the TTS provider if one is selected
+      if (this.useTtsVoice()) {
+          const provider = createTtsProvider(config, {
+              onAudio: this.handleTtsAudio,
+              onSpeaking: this.handleTtsSpeaking,
+              onStatus: this.handleTtsStatus,
+              onTimestamps: this.handleTtsTimestamps,
+              onWordBoundary: this.handleTtsWordBoundary,
+              onDone: this.handleTtsDone,
+              onError: (message) => this.log('system', `${this.ttsProvider?.name ?? 'TTS'} error: ${message}`),
+          });
+          if (!provider) {
+              this.fallBackFromTts(`${TTS_PROVIDER_LABELS[resolveTtsProviderType(config)]} is not configured (or not supported by this browser).`);
+          } else {
+              this.ttsProvider = provider;
+              this.ttsSegmenter = new TextSegmenter(text => this.ttsProvider?.streamText(text));
+              try {
+                  await provider.connect();
+                  const modeDesc = (config.useTextMode || this.budgetTextMode)
+                      ? 'TEXT mode (44% cheaper - $2/1M tokens)'
+                      : 'AUDIO mode with transcription';
+                  this.log('system', `Connected to ${provider.name} TTS - Using ${modeDesc}`);
+              } catch (e) {
+                  // The session isn't open yet, so it simply starts with native audio
+                  this.fallBackFromTts(`Failed to connect to ${provider.name}.`);
+              }
+          }
+      }
+
+      // Sync output gain
+      if (this.outputGain) {
+          this.outputGain.gain.value = this.state.isOutputMuted ? 0 : 1;
+      }
+
+      const liveTransport = this.resolveTransport();
+
+      this.log('system', isResuming
+          ? (resumptionHandle ? `Resuming ${liveTransport.name} session...` : `Reconnecting to ${liveTransport.name}...`)
+          : `Connecting to ${liveTransport.name}...`);
+
+      const functionDeclarations = [...this.getBuiltinTools(), ...this.tools].map(t => t.declaration);
+
+      // --- Persona Logic ---
+      const selectedPersona = getPersona(config.persona);
+      const baseInstruction = selectedPersona.instruction;
+
+      // Append user-defined overrides if any
+      let finalSystemInstruction = baseInstruction;
+      if (config.systemInstruction) {
+          finalSystemInstruction += `\n\nAdditional User Instructions: ${config.systemInstruction}`;
+      }
+
+      // Append first greeting instruction if enabled (not on reconnects - the conversation is already going)
+      if (config.useFirstGreeting && config.firstGreeting && !isResuming) {
+          finalSystemInstruction += `\n\nIMPORTANT: You must start the conversation by saying exactly this sentence: "${config.firstGreeting}". Do not wait for the user to speak first.`;
+      }
+
+      // Cost Optimization: Use TEXT mode when a TTS provider is enabled with useTextMode
+      // TEXT mode costs $2/1M tokens vs AUDIO mode at $12/1M tokens (44% cheaper overall)
+      const useTextOutput = this.useTtsVoice() && (config.useTextMode || this.budgetTextMode);
+
+      const sessionPromise = liveTransport.connect({
+        model: config.model,
+        config: {
+          responseModalities: [useTextOutput ? Modality.TEXT : Modality.AUDIO],
+          // Only include speech config when using native audio output
+          ...(useTextOutput ? {} : {
+            speechConfig: {
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: config.voiceName } },
+            },
+          }),
+          // Fixed: Moved config out of deprecated generationConfig
+          temperature: 0.9,
+          topP: 0.95,
+          topK: 40,
+
+          systemInstruction: finalSystemInstruction,
+          tools: functionDeclarations.length > 0 ? [{ functionDeclarations }] : undefined,
+          outputAudioTranscription: {},
+          inputAudioTranscription: {}, // Enable input transcription
+          // Ask for resumption handles so a dropped session can pick up where it left off
+          sessionResumption: resumptionHandle ? { handle: resumptionHandle } : {},
+          // Long watch sessions would otherwise hit the context limit
+          contextWindowCompression: { slidingWindow: {} },
+        },
+        callbacks: {
+          onopen: () => {
+            if (!isCurrent()) return;
+            opened = true;
+            this.setState({ isConnected: true });
+            this.log('system', isResuming ? 'Session Reconnected.' : 'Session Connected.');
+
+            // Debug: Log session capabilities
+            sessionPromise.then(session => {
+                if (!isCurrent()) return;
+                this.log('system', `Session capabilities: ${Object.keys(session).join(', ')}`);
+                // Sending 500ms of silence to establish media flow
+                session.sendRealtimeInput({ media: createPcmBlob(new Float32Array(8000)) });
+
+                if (isResuming) {
+                    this.reconnectAttempt = 0;
+                    this.setState({ isReconnecting: false });
+
+                    // A fresh (non-resumed) session has no memory of the conversation, so replay it as context
+                    if (!resumptionHandle && this.transcriptHistory.length > 0) {
+                        const turns: Content[] = this.transcriptHistory.map(turn => ({
+                            role: turn.role,
+                            parts: [{ text: turn.text }]
+                        }));
+                        turns.push({
+                            role: 'user',
+                            parts: [{ text: '[CONTEXT] The connection dropped and was restored. The turns above are the conversation so far. Continue naturally without mentioning the reconnect.' }]
+                        });
+                        session.sendClientContent({ turns, turnComplete: false });
+                        this.log('system', `Carried ${this.transcriptHistory.length} transcript turns into the new session.`);
+                    }
+                }
+            });
+
+            if (isReplay) return;
+
+            // Rebuild the frame sampler against the new session if a video source survived the drop
+            if (isResuming && (this.screenStream || this.cameraStream || this.mediaFile)) {
+                this.startVideoProcessing();
+            }
+
+            this.startMicrophone(sessionPromise, isCurrent);
+          },
+          onmessage: (msg: LiveServerMessage) => {
+            if (!isCurrent()) return;
+            return this.handleServerMessage(msg, sessionPromise, !!useTextOutput);
+          },
+          onclose: (e: CloseEvent) => {
+            if (!isCurrent()) return;
+
+            if (!opened) {
+                // The connect attempt itself failed; nothing was up to reconnect
+                failAttempt(e?.reason || `socket closed (${e?.code ?? 'no code'})`);
+                return;
+            }
+
+            if (!liveTransport.canReconnect) {
+                // Replay reached its end (or was stopped) - release everything like a manual disconnect
+                this.log('system', e?.reason ? `Session Closed (${e.reason})` : 'Session Closed');
+                this.disconnect();
+                return;
+            }
+
+            if (this.intentionalClose || !(this.config.autoReconnect ?? true)) {
+                this.setState({ isConnected: false });
+                this.log('system', 'Session Closed');
+                return;
+            }
+
+            // Unexpected drop: release the half-built pipelines and try to get back
+            this.setState({ isConnected: false });
+            this.teardownForReconnect();
+            const detail = e?.reason ? ` (${e.code}: ${e.reason})` : (e?.code ? ` (${e.code})` : '');
+            this.scheduleReconnect(`Session dropped${detail}.`);
+          },
+          onerror: (err) => {
+            if (!isCurrent()) return;
+            this.log('system', `Error: ${err.message}`);
+          }
+        }
+      });
+
+      this.sessionPromise = sessionPromise;
+      const session = await sessionPromise;
+      if (isCurrent()) {
+          this.session = session;
+      } else {
+          // Disconnected (or replaced) while still connecting
+          try {
+              session.close();
+          } catch (e) { console.error(e); }
+      }
+
+    } catch (e: any) {
+      if (!isCurrent()) return;
+      failAttempt(e.message);
+    }
+  }
+
+  // Start Microphone Stream and build the capture graph for the given session
+  private async startMicrophone(sessionPromise: Promise<LiveTransportSession>, isCurrent: () => boolean) {
+    try {
+        // Use selected device or default
+        const deviceId = this.state.currentAudioDeviceId;
+        const stream = await navigator.mediaDevices.getUserMedia({
+            audio: deviceId ? { deviceId: { exact: deviceId } } : true
+        });
+
+        // Session may have dropped while we waited for the mic permission
+        if (!isCurrent()) {
+            stream.getTracks().forEach(t => t.stop());
+            return;
+        }
+
+        this.mediaStream = stream;
+
+        // Refresh devices now that we have permissions (to get labels)
+        this.loadAudioDevices();
+
+        if (this.audioContext) {
+            const ctx = this.audioContext;
+
+            // Mic and screen audio are mixed inside the worklet, so system audio still flows when the mic is muted.
+            // Mic mute is handled by micGain node.
+            const captureNode = await createCaptureNode(ctx, this.getCaptureSettings(), {
+                onChunk: pcmBlob => {
+                    sessionPromise.then(session => {
+                        if (!isCurrent()) return;
+                        session.sendRealtimeInput({ media: pcmBlob });
+                    });
+                },
+                onGateChange: open => this.setState({ isMicGateOpen: open }),
+            });
+
+            // Session may have dropped while the worklet module was loading
+            if (!isCurrent()) {
+                stream.getTracks().forEach(t => t.stop());
+                return;
+            }
+
+            // Setup Audio Chain: Source -> MicGain -> Analyser -> Capture (mic input) -> Destination
+            const source = ctx.createMediaStreamSource(stream);
+            const micGain = ctx.createGain();
+            micGain.gain.value = this.state.isMuted ? 0 : resolveMixer(this.config).micGain; // Initialize with current mute state
+
+            const analyser = ctx.createAnalyser();
+            analyser.fftSize = 256;
+
+            source.connect(micGain);
+            micGain.connect(analyser);
+            analyser.connect(captureNode, 0, CAPTURE_INPUT_MIC);
+            // Output is silent; connecting it keeps the node pulled by the graph
+            captureNode.connect(ctx.destination);
+
+            this.inputSource = source;
+            this.micGainNode = micGain;
+            this.analyser = analyser;
+            this.captureNode = captureNode;
+            this.conversationRecorder?.setSource('mic', micGain);
+            setCapturePushToTalk(captureNode, this.state.isPushToTalkHeld);
+
+            // Setup Screen Audio if exists (e.g. user started screenshare before connecting)
+            const screenAudio = this.getScreenAudioStream();
+            if (screenAudio) {
+                this.attachScreenAudio(screenAudio);
+            }
+
+            this.startVolumeMonitor();
+            this.syncSidechain();
+        }
+    } catch (err) {
+        this.log('system', `Mic Error: ${err}`);
+    }
+  }
+
+  private async handleServerMessage(msg: LiveServerMessage, sessionPromise: Promise<LiveTransportSession>, useTextOutput: boolean) {
+    // Keep the latest resumption handle so a drop can resume the same server-side session
+    if (msg.sessionResumptionUpdate) {
+        const update = msg.sessionResumptionUpdate;
+        if (update.resumable && update.newHandle) {
+            this.resumptionHandle = update.newHandle;
+        }
+    }
+
+    // Server is about to terminate the connection (e.g. session time limit) - hand over before it does
+    if (msg.goAway) {
+        const timeLeft = msg.goAway.timeLeft ? ` (${msg.goAway.timeLeft} left)` : '';
+        if (this.state.isReplaying) {
+            // Recorded from the original session; the replay itself has nowhere to go
+            this.log('system', `Server requested disconnect${timeLeft} (recorded).`);
+            return;
+        }
+        this.log('system', `Server requested disconnect${timeLeft}. Handing over to a new session...`);
+        if (this.config.autoReconnect ?? true) {
+            this.handoverSession();
+        }
+        return;
+    }
+
+    if (msg.usageMetadata) {
+        this.usageTracker.addUsageMetadata(msg.usageMetadata, useTextOutput ? 'TEXT' : 'AUDIO');
+        this.emitUsage();
+    }
+
+    // Check if this is the start of a new model turn (audio or text) to capture start time
+    const isModelResponse = msg.serverContent?.modelTurn || msg.serverContent?.outputTranscription;
+    if (isModelResponse && !this.turnStartTime) {
+        this.turnStartTime = new Date();
+        // Until this turn's tag shows up, speak neutrally
+        this.turnSentiment = null;
+        this.applyDelivery(null);
+        this.captions.startTurn();
+    }
+
+    // Handle TEXT mode responses (when using a TTS provider + TEXT mode for cost optimization)
+    // In TEXT mode, Gemini sends text directly in modelTurn.parts instead of audio
+    const textPart = msg.serverContent?.modelTurn?.parts?.[0]?.text;
+    if (textPart && useTextOutput) {
+        this.modelTranscription += textPart;
+        this.usageTracker.addModelText(textPart);
+        this.emit('transcript', { role: 'model', text: this.modelTranscription, isFinal: false });
+        this.detectSentiment();
+        // Pipe text to the TTS provider
+        this.ttsSegmenter?.push(textPart);
+    }
+
+    // Handle Output Transcription (when using AUDIO mode + a TTS provider for voice replacement)
+    // In this mode, Gemini outputs audio but we use transcription to feed the TTS provider
+    const outputTranscript = msg.serverContent?.outputTranscription;
+    if (outputTranscript?.text && !useTextOutput) {
+        this.modelTranscription += outputTranscript.text;
+        this.usageTracker.addModelText(outputTranscript.text);
+        this.emit('transcript', { role: 'model', text: this.modelTranscription, isFinal: false });
+        this.detectSentiment();
+        // If using a TTS provider (but not TEXT mode), pipe the transcription to it
+        this.ttsSegmenter?.push(outputTranscript.text);
+        // Gemini's own voice: caption timing comes from where the transcription lands in its audio
+        if (!this.useTtsVoice() && (this.config.liveCaptions ?? true)) {
+            this.captions.addTranscript(outputTranscript.text);
+            this.startCaptionTimer();
+        }
+    }
+
+    // Handle Audio from Gemini (Native Gemini voice output)
+    // If a TTS provider is enabled OR we're in TEXT mode, we IGNORE audio chunks
+    const inlineAudio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData;
+    if (inlineAudio?.data && this.outputContext && !this.useTtsVoice()) {
+        this.playGeminiAudio(inlineAudio.data, inlineAudio.mimeType);
+    }
+
+    // Handle Input Transcription
+    const inputTranscript = msg.serverContent?.inputTranscription;
+    if (inputTranscript?.text) {
+        this.userTranscription += inputTranscript.text;
+        this.emit('transcript', { role: 'user', text: this.userTranscription, isFinal: false });
+    }
+
+    // Handle Turn Complete
+    if (msg.serverContent?.turnComplete) {
+         // All of Gemini's own audio for the turn is in; a TTS voice reports its end through onDone
+         if (!this.ttsProvider) this.playbackQueue?.endTurn();
+         this.ttsSegmenter?.flush();
+         this.ttsProvider?.flush();
+         this.commitPendingTranscripts();
+         // Alternate-mode estimate depends on the finished transcript
+         this.emitUsage();
+    }
+
+    // Handle Interrupted
+    if (msg.serverContent?.interrupted) {
+         this.modelTranscription = "";
+         this.turnStartTime = null;
+         this.turnSentiment = null;
+
+         this.stopPlayback();
+         this.clearCaptions();
+
+         // Stop TTS immediately when interrupted
+         this.ttsSegmenter?.reset();
+         this.ttsProvider?.cancel();
+    }
+
+    // Handle Tools
+    if (msg.toolCall) {
+        if (this.replayRecording) {
+            // The tools already ran while recording; running them again would repeat their side effects
+            const recording = this.replayRecording;
+            this.log('model', 'Calling Tools (replayed)...', { data: msg.toolCall });
+            (msg.toolCall.functionCalls || []).forEach(call => {
+                const result = findRecordedToolResult(recording, call.id) ?? { error: `No recorded response for ${call.name}` };
+                this.emit('toolCall', { id: call.id, name: call.name || '', args: call.args, result });
+            });
+            return;
+        }
+
+        this.log('model', 'Calling Tools...', { data: msg.toolCall });
+
+        const functionResponses = await Promise.all((msg.toolCall.functionCalls || []).map(async (call) => {
+            const tool = [...this.getBuiltinTools(), ...this.tools].find(t => t.declaration.name === call.name);
+            let result = { error: `Tool ${call.name} not found` };
+
+            if (tool) {
+                try {
+                    const output = await tool.execute(call.args);
+                    result = output;
+                    this.log('tool', `Executed ${call.name}`, { data: output });
+                } catch (e: any) {
+                    result = { error: e.message };
+                }
+            }
+
+            this.emit('toolCall', { id: call.id, name: call.name || '', args: call.args, result });
+
+            return {
+                id: call.id,
+                name: call.name,
+                response: { result }
+            };
+        }));
+
+        sessionPromise.then(session => {
+            if (this.session && session !== this.session) return;
+            session.sendToolResponse({ functionResponses });
+        });
+    }
+  }
+
+  // --- Public Session Controls ---
+
+  async connect() {
+    this.replayRecording = null;
+    this.setState({ isReplaying: false });
+
+    const liveTransport = this.transport ?? createLiveTransport(this.config);
+    if (liveTransport.requiresApiKey && !process.env.API_KEY) {
+      alert("API Key not found in environment.");
+      return;
+    }
+
+    // Fresh conversation: forget any previous session state
+    this.resetConversation();
+    this.startBudgetMonitor();
+    await this.openSession();
+  }
+
+  private resetConversation() {
+    this.clearReconnectTimer();
+    this.setState({ isReconnecting: false });
+    this.intentionalClose = false;
+    this.reconnectAttempt = 0;
+    this.resumptionHandle = null;
+    this.transcriptHistory = [];
+    this.modelTranscription = "";
+    this.userTranscription = "";
+    this.turnStartTime = null;
+    this.usageTracker.reset();
+    this.emitUsage();
+    this.playbackQueue?.resetStats();
+    this.emit('playback', this.getPlaybackStats());
+    this.frameSampler?.resetStats();
+    this.emit('frames', this.getFrameStats());
+    this.conversationStartTime = Date.now();
+    this.videoFramesSent = 0;
+    this.budgetLevel = 0;
+    this.budgetTextMode = false;
+    // A new conversation gives the TTS provider another chance
+    this.ttsDown = false;
+  }
+
+  // --- Budget Guardrails ---
+
+  private startBudgetMonitor() {
+    this.stopBudgetMonitor();
+    this.budgetInterval = window.setInterval(() => this.checkBudget(), BUDGET_CHECK_INTERVAL_MS);
+  }
+
+  private stopBudgetMonitor() {
+    if (this.budgetInterval) {
+        clearInterval(this.budgetInterval);
+        this.budgetInterval = null;
+    }
+  }
+
+  // Fraction used of whichever configured budget is closest to its limit
+  private getTightestBudget(): { fraction: number; detail: string } | null {
+    const { budgetMaxUsd, budgetMaxMinutes, budgetMaxVideoFrames } = this.config;
+    const budgets: { fraction: number; detail: string }[] = [];
+
+    if (budgetMaxUsd) {
+        const cost = this.getUsage().cost;
+        budgets.push({ fraction: cost / budgetMaxUsd, detail: `cost ${formatUsd(cost)} of ${formatUsd(budgetMaxUsd)}` });
+    }
+    if (budgetMaxMinutes) {
+        const minutes = (Date.now() - this.conversationStartTime) / 60000;
+        budgets.push({ fraction: minutes / budgetMaxMinutes, detail: `${minutes.toFixed(1)} of ${budgetMaxMinutes} min` });
+    }
+    if (budgetMaxVideoFrames) {
+        budgets.push({ fraction: this.videoFramesSent / budgetMaxVideoFrames, detail: `${this.videoFramesSent} of ${budgetMaxVideoFrames} video frames` });
+    }
+
+    if (budgets.length === 0) return null;
+    return budgets.reduce((a, b) => (b.fraction > a.fraction ? b : a));
+  }
+
+  private checkBudget() {
+    if (!this.state.isConnected || this.state.isReplaying) return;
+    const budget = this.getTightestBudget();
+    if (!budget) return;
+
+    const target: BudgetLevel = budget.fraction >= 1 ? 3
+        : budget.fraction >= BUDGET_TEXT_MODE_AT ? 2
+        : budget.fraction >= BUDGET_LOW_FPS_AT ? 1
+        : 0;
+
+    // Walk the steps in order so a sudden jump still logs (and applies) each one
+    while (this.budgetLevel < target) {
+        this.budgetLevel = (this.budgetLevel + 1) as BudgetLevel;
+        const percent = Math.round(budget.fraction * 100);
+
+        if (this.budgetLevel === 1) {
+            this.log('system', `Budget ${percent}% used (${budget.detail}). Limiting video to ${this.getBudgetVideoFps()} FPS.`);
+            this.syncFrameSampler();
+        } else if (this.budgetLevel === 2) {
+            if (this.useTtsVoice() && !this.config.useTextMode) {
+                this.budgetTextMode = true;
+                this.log('system', `Budget ${percent}% used (${budget.detail}). Switching Gemini to TEXT output for the TTS provider.`);
+                // Output modality is fixed per session, so hand over to a new one
+                this.handoverSession();
+            } else {
+                this.log('system', `Budget ${percent}% used (${budget.detail}). Already on the cheapest output mode.`);
+            }
+        } else {
+            this.log('system', `Budget reached (${budget.detail}). Ending session.`);
+            this.disconnect();
+            return;
+        }
+    }
+  }
+
+  // Plays a recorded session back through the same message handler as a live one
+  async replaySession(recording: SessionRecording) {
+    if (this.session) {
+        this.disconnect();
+    }
+
+    const currentMode = (resolveTtsProviderType(this.config) !== 'gemini' && this.config.useTextMode) ? Modality.TEXT : Modality.AUDIO;
+    const recordedModes = recording.config.responseModalities || [];
+    if (recordedModes.length > 0 && !recordedModes.includes(currentMode)) {
+        this.log('system', `Warning: recording used ${recordedModes.join('/')} output but current settings use ${currentMode}. Playback may differ.`);
+    }
+
+    this.resetConversation();
+
+    this.replayRecording = recording;
+    this.setState({ isReplaying: true });
+    const messageCount = recording.events.filter(e => e.kind === 'serverMessage').length;
+    this.log('system', `Replaying session from ${recording.startedAt} (${messageCount} server messages).`);
+
+    await this.openSession();
+  }
+
+  startSessionRecording() {
+    this.sessionRecorder.start();
+    this.setState({ isRecordingSession: true });
+    this.log('system', 'Session recording started.');
+  }
+
+  stopSessionRecording() {
+    if (!this.sessionRecorder.isRecording) return;
+    const recording = this.sessionRecorder.stop();
+    this.setState({ isRecordingSession: false });
+    downloadSessionRecording(recording);
+    this.log('system', `Session recording saved (${recording.events.length} events).`);
+  }
+
+  // --- Conversation Recording ---
+
+  async startConversationRecording() {
+    if (this.conversationRecorder || !this.state.isConnected || !this.outputContext) return;
+    const recorder = new ConversationRecorder(this.outputContext, {
+        videoElement: this.config.recordVideo ? this.getVideoElement() : null,
+        wavStems: this.config.recordWavStems,
+    });
+    try {
+        await recorder.start();
+    } catch (e: any) {
+        this.log('system', `Recording failed to start: ${e.message}`);
+        return;
+    }
+    this.conversationRecorder = recorder;
+    recorder.setSource('mic', this.micGainNode);
+    recorder.setSource('screen', this.screenAnalyser);
+    recorder.setSource('ai', this.outputAnalyser);
+    this.setState({ isRecordingConversation: true });
+    this.log('system', `Recording conversation${this.config.recordVideo ? ' with video' : ''}${this.config.recordWavStems ? ' and WAV stems' : ''}.`);
+  }
+
+  async stopConversationRecording() {
+    const recorder = this.conversationRecorder;
+    if (!recorder) return;
+    this.conversationRecorder = null;
+    this.setState({ isRecordingConversation: false });
+    const result = await recorder.stop();
+    downloadConversationRecording(result);
+    this.log('system', `Recording saved (${Math.round(result.durationMs / 1000)}s${result.stems.length ? `, ${result.stems.length} stems` : ''}).`);
+  }
+
+  disconnect() {
+    // StrictMode mounts twice, so dispose() also runs when nothing was ever connected
+    const wasActive = this.session !== null || this.sessionPromise !== null
+        || this.state.isConnected || this.state.isReconnecting || this.reconnectTimeout !== null;
+    this.intentionalClose = true;
+    this.replayRecording = null;
+    this.clearReconnectTimer();
+    this.stopBudgetMonitor();
+    this.resumptionHandle = null;
+
+    // Don't lose a capture when the session ends - that's usually when the bug just happened
+    this.stopSessionRecording();
+    this.stopConversationRecording().catch(e => this.log('system', `Recording failed to save: ${e.message}`));
+
+    this.stopAudioProcessing();
+    this.stopVideoProcessing();
+
+    // Disconnect the TTS provider
+    this.disconnectTts();
+
+    // Bump generation first so the closing session's onclose doesn't come back in here
+    this.sessionGeneration++;
+    if (this.session) {
+        try {
+            this.session.close();
+        } catch (e) { console.error(e); }
+    }
+    const usage = this.getUsage();
+    if (this.session && usage.totalTokens > 0) {
+        this.log('system', `Session usage: ${usage.totalTokens.toLocaleString()} tokens, est. ${formatUsd(usage.cost)} (${usage.alternateMode} output would have been ~${formatUsd(usage.alternateCost)}).`);
+    }
+
+    this.session = null;
+    this.sessionPromise = null;
+    if (!wasActive) {
+        if (this.state.currentVideoSource !== VideoSourceType.NONE) this.setState({ currentVideoSource: VideoSourceType.NONE });
+        return;
+    }
+    this.setState({
+        isConnected: false,
+        isReconnecting: false,
+        isReplaying: false,
+        currentVideoSource: VideoSourceType.NONE,
+    });
+    this.log('system', 'Disconnected');
+  }
+
+  toggleMute() {
+      const newMuted = !this.state.isMuted;
+      this.setState({ isMuted: newMuted });
+      this.applyMicGain();
+  }
+
+  toggleScreenAudio() {
+      const newMuted = !this.state.isScreenAudioMuted;
+      this.setState({ isScreenAudioMuted: newMuted });
+      if (this.screenMuteGainNode) {
+          this.screenMuteGainNode.gain.value = newMuted ? 0 : 1;
+      }
+  }
+
+  toggleOutputMute() {
+      const newMuted = !this.state.isOutputMuted;
+      this.setState({ isOutputMuted: newMuted });
+      if (this.outputGain) {
+          this.outputGain.gain.value = newMuted ? 0 : 1;
+      }
+  }
+}
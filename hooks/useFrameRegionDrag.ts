@@ -0,0 +1,96 @@
+import React, { useRef, useState } from 'react';
+import { RegionOfInterest } from '../utils/regionOfInterest';
+
+export interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Where the frame actually sits inside an object-contain <video> (letterboxed)
+export function getContentBox(video: HTMLVideoElement): Box {
+  const { clientWidth, clientHeight, videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight) return { left: 0, top: 0, width: clientWidth, height: clientHeight };
+  const scale = Math.min(clientWidth / videoWidth, clientHeight / videoHeight);
+  const width = videoWidth * scale;
+  const height = videoHeight * scale;
+  return { left: (clientWidth - width) / 2, top: (clientHeight - height) / 2, width, height };
+}
+
+interface UseFrameRegionDragProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  isEditing: boolean;
+  // Called with the dragged-out region when the pointer is released
+  onComplete: (region: RegionOfInterest) => void;
+  // Only start a drag on the overlay itself, not on anything drawn inside it
+  ownTargetOnly?: boolean;
+}
+
+/**
+ * Drag-a-rectangle over the Live Feed preview. Attach `overlayRef` and `handlers` to an
+ * overlay covering the <video>; regions are normalized to the video frame, and `place`
+ * turns one back into CSS for the overlay.
+ */
+export const useFrameRegionDrag = ({ videoRef, isEditing, onComplete, ownTargetOnly = false }: UseFrameRegionDragProps) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<RegionOfInterest | null>(null);
+
+  // Pointer position in normalized frame coordinates
+  const toFrame = (e: React.PointerEvent): { x: number; y: number } | null => {
+    const video = videoRef.current;
+    const overlay = overlayRef.current;
+    if (!video || !overlay) return null;
+    const rect = overlay.getBoundingClientRect();
+    const box = getContentBox(video);
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left - box.left) / box.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top - box.top) / box.height)),
+    };
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (!isEditing || (ownTargetOnly && e.target !== overlayRef.current)) return;
+    const point = toFrame(e);
+    if (!point) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(point);
+    setDraft({ x: point.x, y: point.y, width: 0, height: 0 });
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!dragStart) return;
+    const point = toFrame(e);
+    if (!point) return;
+    setDraft({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y),
+    });
+  };
+
+  const onPointerUp = () => {
+    if (draft) onComplete(draft);
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  const video = videoRef.current;
+  const box = video ? getContentBox(video) : null;
+  const place = (region: RegionOfInterest): React.CSSProperties | undefined => box ? {
+    left: box.left + region.x * box.width,
+    top: box.top + region.y * box.height,
+    width: region.width * box.width,
+    height: region.height * box.height,
+  } : undefined;
+
+  return {
+    overlayRef,
+    draft,
+    box,
+    place,
+    handlers: { onPointerDown, onPointerMove, onPointerUp },
+  };
+};
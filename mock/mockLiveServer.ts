@@ -0,0 +1,264 @@
+/**
+ * Scripted stand-in for the Gemini Live API.
+ *
+ *   npm run mock:live -- --port 8765
+ *
+ * Point the app at it with Settings -> Live Backend -> Mock Live Server. It speaks the
+ * JSON envelope protocol from utils/mockLiveTransport.ts and replies with canned
+ * `LiveServerMessage` sequences. Chat messages containing these keywords pick a script:
+ *
+ *   "tool"       - issues a toolCall for a declared tool and waits for the toolResponse
+ *   "interrupt"  - starts a long answer and sends `interrupted` part-way through
+ *   "goaway"     - sends a goAway warning, then closes the socket 5s later
+ *   "drop"       - kills the socket without a close handshake (network blip)
+ *
+ * Anything else gets an echo reply. `[CONTEXT]` messages are absorbed silently.
+ */
+import { WebSocketServer, WebSocket } from 'ws';
+import type { LiveServerMessage, LiveConnectConfig, FunctionDeclaration, Content, ContentListUnion, Part } from '@google/genai';
+import type { MockClientMessage } from '../utils/mockLiveTransport';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const CHUNK_INTERVAL_MS = 120;
+const SECONDS_PER_WORD = 0.25;
+const WORDS_PER_CHUNK = 3;
+// Rough token rates so the app's cost meter has something to show
+const AUDIO_TOKENS_PER_SECOND = 25;
+const INPUT_AUDIO_TOKENS_PER_CHUNK = 8; // ~256ms of 16kHz mic audio
+const TOKENS_PER_FRAME = 258;
+
+const portArg = process.argv.indexOf('--port');
+const port = portArg !== -1 ? parseInt(process.argv[portArg + 1], 10) : 8765;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A wobbling tone stands in for speech: 16-bit LE mono PCM, base64 encoded like Gemini's audio parts
+function synthesizeSpeech(words: number): string {
+  const frameCount = Math.floor(OUTPUT_SAMPLE_RATE * SECONDS_PER_WORD * words);
+  const pcm = Buffer.alloc(frameCount * 2);
+  for (let i = 0; i < frameCount; i++) {
+    const t = i / OUTPUT_SAMPLE_RATE;
+    const syllable = Math.abs(Math.sin(Math.PI * t / SECONDS_PER_WORD));
+    const sample = Math.sin(2 * Math.PI * (180 + 40 * Math.sin(2 * Math.PI * 3 * t)) * t) * 0.3 * syllable;
+    pcm.writeInt16LE(Math.round(sample * 0x7FFF), i * 2);
+  }
+  return pcm.toString('base64');
+}
+
+function extractText(turns: ContentListUnion | undefined): string {
+  if (!turns) return '';
+  if (typeof turns === 'string') return turns;
+  const list = Array.isArray(turns) ? turns : [turns];
+  return list
+    .map(item => {
+      if (typeof item === 'string') return item;
+      const content = item as Content;
+      if (content.parts) return content.parts.map((p: Part) => p.text || '').join('');
+      return (item as Part).text || '';
+    })
+    .join(' ');
+}
+
+class MockSession {
+  private ws: WebSocket;
+  private config: LiveConnectConfig = {};
+  private textMode = false;
+  private tools: FunctionDeclaration[] = [];
+  private turnId = 0;
+  private isSpeaking = false;
+  private resumptionCounter = 0;
+  private pendingToolCall: ((response: unknown) => void) | null = null;
+  private audioChunks = 0;
+  private videoFrames = 0;
+  // Input counted since the last usage report
+  private unbilledAudioChunks = 0;
+  private unbilledVideoFrames = 0;
+  private unbilledTextChars = 0;
+
+  constructor(ws: WebSocket) {
+    this.ws = ws;
+    ws.on('message', raw => {
+      let message: MockClientMessage;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch (e) {
+        console.warn('[mock] ignoring malformed frame', raw.toString().slice(0, 80));
+        return;
+      }
+      this.handle(message);
+    });
+    ws.on('close', () => {
+      this.turnId++;
+      console.log(`[mock] session closed (audio chunks: ${this.audioChunks}, video frames: ${this.videoFrames})`);
+    });
+  }
+
+  private emit(message: LiveServerMessage) {
+    if (this.ws.readyState !== WebSocket.OPEN) return;
+    this.ws.send(JSON.stringify(message));
+  }
+
+  private handle(message: MockClientMessage) {
+    if ('setup' in message) {
+      this.config = message.setup.config || {};
+      this.textMode = (this.config.responseModalities || []).some(m => String(m) === 'TEXT');
+      const tools = (this.config.tools || []) as { functionDeclarations?: FunctionDeclaration[] }[];
+      this.tools = tools.flatMap(t => t.functionDeclarations || []);
+      console.log(`[mock] setup model=${message.setup.model} mode=${this.textMode ? 'TEXT' : 'AUDIO'} tools=${this.tools.map(t => t.name).join(',') || 'none'}`);
+      this.emit({ setupComplete: {} } as LiveServerMessage);
+
+      const greeting = String(this.config.systemInstruction || '').match(/saying exactly this sentence: "([^"]+)"/);
+      if (greeting) {
+        this.speak(`[S:EXCITED] ${greeting[1]}`);
+      }
+      return;
+    }
+
+    if ('realtimeInput' in message) {
+      const mime = message.realtimeInput.media && 'mimeType' in message.realtimeInput.media ? message.realtimeInput.media.mimeType || '' : '';
+      if (mime.startsWith('audio/')) { this.audioChunks++; this.unbilledAudioChunks++; }
+      if (mime.startsWith('image/')) { this.videoFrames++; this.unbilledVideoFrames++; }
+      return;
+    }
+
+    if ('toolResponse' in message) {
+      const resolve = this.pendingToolCall;
+      this.pendingToolCall = null;
+      resolve?.(message.toolResponse.functionResponses);
+      return;
+    }
+
+    if ('clientContent' in message) {
+      const text = extractText(message.clientContent.turns).trim();
+      console.log(`[mock] clientContent: ${text.slice(0, 120)}`);
+      this.unbilledTextChars += text.length;
+      if (!message.clientContent.turnComplete || text.startsWith('[CONTEXT]')) return;
+      // New user content barges in on whatever the model was saying, like the real server
+      if (this.isSpeaking) {
+        this.turnId++;
+        this.isSpeaking = false;
+        this.emit({ serverContent: { interrupted: true } } as LiveServerMessage);
+      }
+      this.respondTo(text);
+    }
+  }
+
+  private async respondTo(text: string) {
+    const lower = text.toLowerCase();
+
+    if (lower.includes('goaway')) {
+      this.emit({ goAway: { timeLeft: '5s' } } as LiveServerMessage);
+      await sleep(5000);
+      this.ws.close(1000, 'Session time limit reached');
+      return;
+    }
+
+    if (lower.includes('drop')) {
+      this.ws.terminate();
+      return;
+    }
+
+    if (lower.includes('interrupt')) {
+      await this.speak('Okay so let me tell you a really long story about this, it starts way back when the stream first went live and then', { interruptAfterChunks: 3 });
+      return;
+    }
+
+    if (lower.includes('tool')) {
+      const tool = this.tools.find(t => t.name === 'get_time') || this.tools[0];
+      if (!tool) {
+        await this.speak('[S:NEUTRAL] I do not have any tools to call.');
+        return;
+      }
+      const callId = `mock-call-${Date.now()}`;
+      const response = new Promise(resolve => { this.pendingToolCall = resolve; });
+      this.emit({ toolCall: { functionCalls: [{ id: callId, name: tool.name, args: {} }] } } as LiveServerMessage);
+      const result = await response;
+      await this.speak(`[S:POSITIVE] The ${tool.name} tool returned ${JSON.stringify(result)}.`);
+      return;
+    }
+
+    if (text.startsWith('[POKE]') || text.startsWith('[AUTO-POKE]')) {
+      await this.speak('[S:SURPRISED] Whoa, did you see that? That was wild!');
+      return;
+    }
+
+    await this.speak(`[S:POSITIVE] You said: ${text}.`);
+  }
+
+  // Streams one model turn, chunked the way the real server interleaves audio/text and transcription
+  private async speak(reply: string, options: { interruptAfterChunks?: number } = {}) {
+    const turn = ++this.turnId;
+    const words = reply.split(/\s+/).filter(Boolean);
+    let chunkIndex = 0;
+    this.isSpeaking = true;
+
+    for (let i = 0; i < words.length; i += WORDS_PER_CHUNK) {
+      if (turn !== this.turnId) return;
+      const chunkWords = words.slice(i, i + WORDS_PER_CHUNK);
+      const chunkText = (i > 0 ? ' ' : '') + chunkWords.join(' ');
+
+      if (this.textMode) {
+        this.emit({ serverContent: { modelTurn: { parts: [{ text: chunkText }] } } } as LiveServerMessage);
+      } else {
+        this.emit({
+          serverContent: {
+            modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: synthesizeSpeech(chunkWords.length) } }] }
+          }
+        } as LiveServerMessage);
+        this.emit({ serverContent: { outputTranscription: { text: chunkText } } } as LiveServerMessage);
+      }
+
+      chunkIndex++;
+      if (options.interruptAfterChunks && chunkIndex >= options.interruptAfterChunks) {
+        await sleep(CHUNK_INTERVAL_MS);
+        if (turn !== this.turnId) return;
+        this.isSpeaking = false;
+        this.emit({ serverContent: { interrupted: true } } as LiveServerMessage);
+        return;
+      }
+      await sleep(CHUNK_INTERVAL_MS);
+    }
+
+    if (turn !== this.turnId) return;
+    this.isSpeaking = false;
+    this.emit({ serverContent: { turnComplete: true } } as LiveServerMessage);
+    this.reportUsage(words.length, reply.length);
+
+    if (this.config.sessionResumption) {
+      this.emit({ sessionResumptionUpdate: { newHandle: `mock-handle-${++this.resumptionCounter}`, resumable: true } } as LiveServerMessage);
+    }
+  }
+
+  private reportUsage(words: number, replyChars: number) {
+    const audioIn = this.unbilledAudioChunks * INPUT_AUDIO_TOKENS_PER_CHUNK;
+    const videoIn = this.unbilledVideoFrames * TOKENS_PER_FRAME;
+    const textIn = Math.ceil(this.unbilledTextChars / 4);
+    const responseTokens = this.textMode
+      ? Math.ceil(replyChars / 4)
+      : Math.ceil(words * SECONDS_PER_WORD * AUDIO_TOKENS_PER_SECOND);
+    this.unbilledAudioChunks = 0;
+    this.unbilledVideoFrames = 0;
+    this.unbilledTextChars = 0;
+
+    this.emit({
+      usageMetadata: {
+        promptTokenCount: audioIn + videoIn + textIn,
+        responseTokenCount: responseTokens,
+        totalTokenCount: audioIn + videoIn + textIn + responseTokens,
+        promptTokensDetails: [
+          { modality: 'AUDIO', tokenCount: audioIn },
+          { modality: 'IMAGE', tokenCount: videoIn },
+          { modality: 'TEXT', tokenCount: textIn },
+        ],
+        responseTokensDetails: [{ modality: this.textMode ? 'TEXT' : 'AUDIO', tokenCount: responseTokens }],
+      }
+    } as LiveServerMessage);
+  }
+}
+
+const server = new WebSocketServer({ port });
+server.on('connection', ws => {
+  console.log('[mock] client connected');
+  new MockSession(ws);
+});
+console.log(`[mock] Gemini Live stand-in listening on ws://localhost:${port}`);
@@ -0,0 +1,138 @@
+/**
+ * Stand-in for a self-hosted streaming TTS server.
+ *
+ *   npm run mock:tts -- --port 8766
+ *
+ * Point the app at it with Settings -> Voice (TTS Provider) -> WebSocket Server. It speaks the
+ * protocol from utils/websocketTts.ts: each `text` message is "spoken" as a wobbling tone, one
+ * syllable per word, streamed faster than real time (with word timestamps if asked for); `flush` answers with
+ * `done` once the context's audio has gone out, and `cancel` drops whatever is still queued.
+ */
+import { WebSocketServer, WebSocket } from 'ws';
+import type { TtsServerClientMessage, TtsServerMessage } from '../utils/websocketTts';
+import type { TtsVoice } from '../utils/ttsProvider';
+
+const SECONDS_PER_WORD = 0.25;
+// Audio goes out this much faster than it plays, like a real streaming server
+const REALTIME_FACTOR = 4;
+
+const VOICES: (TtsVoice & { pitch: number })[] = [
+  { id: 'mock-low', name: 'Mock Low', description: 'Low tone', language: 'en', pitch: 140 },
+  { id: 'mock-mid', name: 'Mock Mid', description: 'Middle tone', language: 'en', pitch: 200 },
+  { id: 'mock-high', name: 'Mock High', description: 'High tone', language: 'en', pitch: 280 },
+];
+
+const portArg = process.argv.indexOf('--port');
+const port = portArg !== -1 ? parseInt(process.argv[portArg + 1], 10) : 8766;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// One word of "speech" as raw little-endian PCM in the requested encoding. Emotion is ignored and
+// `speed` just shifts the pitch, enough to hear delivery changes.
+function synthesizeWord(sampleRate: number, encoding: 'pcm_s16le' | 'pcm_f32le', pitch: number): Buffer {
+  const frameCount = Math.floor(sampleRate * SECONDS_PER_WORD);
+  const bytesPerSample = encoding === 'pcm_f32le' ? 4 : 2;
+  const pcm = Buffer.alloc(frameCount * bytesPerSample);
+  for (let i = 0; i < frameCount; i++) {
+    const t = i / sampleRate;
+    const syllable = Math.sin(Math.PI * t / SECONDS_PER_WORD);
+    const sample = Math.sin(2 * Math.PI * (pitch + 30 * Math.sin(2 * Math.PI * 3 * t)) * t) * 0.3 * syllable;
+    if (encoding === 'pcm_f32le') pcm.writeFloatLE(sample, i * 4);
+    else pcm.writeInt16LE(Math.round(sample * 0x7FFF), i * 2);
+  }
+  return pcm;
+}
+
+class MockTtsSession {
+  private ws: WebSocket;
+  private voice = VOICES[0];
+  private sampleRate = 24000;
+  private encoding: 'pcm_s16le' | 'pcm_f32le' = 'pcm_s16le';
+  private timestamps = false;
+  // Messages are handled strictly in order, so audio / done keep their sequence
+  private queue: Promise<void> = Promise.resolve();
+  private cancelled = new Set<string>();
+  // Seconds of audio already sent per context, for the timestamps
+  private offsets = new Map<string, number>();
+
+  constructor(ws: WebSocket) {
+    this.ws = ws;
+    ws.on('message', raw => {
+      let message: TtsServerClientMessage;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch (e) {
+        console.warn('[mock-tts] ignoring malformed frame', raw.toString().slice(0, 80));
+        return;
+      }
+      // Cancel must overtake the queued speech it is cutting off
+      if (message.type === 'cancel') {
+        console.log(`[mock-tts] cancel ${message.context_id}`);
+        this.cancelled.add(message.context_id);
+        this.offsets.delete(message.context_id);
+        return;
+      }
+      this.queue = this.queue.then(() => this.handle(message)).catch(e => console.error('[mock-tts]', e));
+    });
+    ws.on('close', () => console.log('[mock-tts] client disconnected'));
+  }
+
+  private send(message: TtsServerMessage) {
+    if (this.ws.readyState === WebSocket.OPEN) this.ws.send(JSON.stringify(message));
+  }
+
+  private async handle(message: TtsServerClientMessage) {
+    switch (message.type) {
+      case 'config': {
+        this.voice = VOICES.find(v => v.id === message.voice) ?? VOICES[0];
+        this.sampleRate = message.sample_rate;
+        this.encoding = message.encoding;
+        this.timestamps = message.timestamps;
+        console.log(`[mock-tts] config voice=${this.voice.id} ${this.sampleRate}Hz ${this.encoding}`);
+        break;
+      }
+      case 'list_voices':
+        this.send({ type: 'voices', voices: VOICES.map(({ pitch, ...voice }) => voice) });
+        break;
+      case 'text':
+        await this.speak(message.context_id, message.text, message.speed ?? 0);
+        break;
+      case 'flush':
+        if (!this.cancelled.has(message.context_id)) this.send({ type: 'done', context_id: message.context_id });
+        this.offsets.delete(message.context_id);
+        break;
+    }
+  }
+
+  private async speak(contextId: string, text: string, speed: number) {
+    const words = text.trim().split(/\s+/).filter(Boolean);
+    if (this.cancelled.has(contextId) || words.length === 0) return;
+    console.log(`[mock-tts] ${contextId}: ${text.trim().slice(0, 80)}`);
+
+    const offset = this.offsets.get(contextId) ?? 0;
+    this.offsets.set(contextId, offset + words.length * SECONDS_PER_WORD);
+    if (this.timestamps) this.send({
+      type: 'timestamps',
+      context_id: contextId,
+      word_timestamps: {
+        words,
+        start: words.map((_, i) => offset + i * SECONDS_PER_WORD),
+        end: words.map((_, i) => offset + (i + 1) * SECONDS_PER_WORD),
+      },
+    });
+
+    for (let i = 0; i < words.length; i++) {
+      if (this.cancelled.has(contextId)) return;
+      const pcm = synthesizeWord(this.sampleRate, this.encoding, this.voice.pitch * (1 + 0.3 * speed));
+      this.send({ type: 'audio', context_id: contextId, data: pcm.toString('base64') });
+      await sleep(SECONDS_PER_WORD * 1000 / REALTIME_FACTOR);
+    }
+  }
+}
+
+const server = new WebSocketServer({ port });
+server.on('connection', ws => {
+  console.log('[mock-tts] client connected');
+  new MockTtsSession(ws);
+});
+console.log(`[mock-tts] TTS server stand-in listening on ws://localhost:${port}`);
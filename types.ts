@@ -1,4 +1,8 @@
 import { FunctionDeclaration, Tool } from "@google/genai";
+import type { PcmEncoding } from "./utils/resampler";
+import type { CompositeLayout, PipPosition } from "./utils/frameCompositor";
+import type { VideoFrameFormat } from "./utils/frameEncoder";
+import type { EmotionMap } from "./utils/emotionDelivery";
 
 export interface LogEntry {
   timestamp: Date;
@@ -21,17 +25,85 @@ export interface StreamConfig {
   useFirstGreeting?: boolean;
   firstGreeting?: string;
   enableDucking?: boolean;
+  // Mic / screen-audio levels and ducking envelope (defaults in utils/mixer.ts)
+  mixer?: Partial<MixerSettings>;
+  // Size of each mic/screen PCM chunk sent to the model (20-100ms, default 40)
+  audioChunkMs?: number;
+  // When mic audio is sent: always, only while speech is detected, or while a hotkey is held
+  micMode?: MicMode;
+  pushToTalkKey?: string; // KeyboardEvent.code, default 'Space'
+  vadHangoverMs?: number; // Keep sending this long after speech stops (default 400)
+  vadPreRollMs?: number; // Audio sent ahead of detected speech onset (default 300)
   commentaryInterval: number; // Interval in seconds for auto-pokes
+  // Video frame sampling: near-identical frames are skipped, big scene changes briefly burst faster
+  videoFps?: number; // Max frames/s while the scene changes (default 5)
+  videoMaxIdleMs?: number; // Send a frame at least this often on a static scene (default 5000)
+  videoDiffThreshold?: number; // 0-1 mean luma change that counts as "changed" (default 0.03)
+  // Sent frame encoding (defaults in utils/frameEncoder.ts)
+  videoFormat?: VideoFrameFormat;
+  videoQuality?: number; // 0-1
+  videoMaxWidth?: number;
+  videoMaxHeight?: number;
+  // CAMERA_SCREEN composite (defaults in utils/frameCompositor.ts)
+  compositeLayout?: CompositeLayout;
+  pipPosition?: PipPosition;
+  pipScale?: number; // Webcam width as a fraction of the screen width, 0.1-0.5
+  // Reconnect with backoff (and resume the server-side session) when the socket drops
+  autoReconnect?: boolean;
+  maxReconnectAttempts?: number;
+  // Live backend: the real Gemini API, or the scripted local stand-in (npm run mock:live)
+  transport?: LiveTransportType;
+  mockServerUrl?: string;
+  // Per-session budgets (0 / unset = unlimited). Nearing a limit steps the session down:
+  // lower frame rate -> TEXT output for TTS provider users -> disconnect
+  budgetMaxUsd?: number;
+  budgetMaxMinutes?: number;
+  budgetMaxVideoFrames?: number;
+  // Conversation recording: include the Live Feed video, and save per-source WAV stems next to the WebM
+  recordVideo?: boolean;
+  recordWavStems?: boolean;
+  // Voice replacement: which TTS speaks the model's replies ('gemini' = Gemini's own voice)
+  ttsProvider?: TtsProviderType;
   // Cartesia Config
-  useCartesia?: boolean;
   cartesiaApiKey?: string;
   cartesiaVoiceId?: string;
+  // Raw PCM format requested from Cartesia (default f32 @ 44.1kHz)
+  cartesiaSampleRate?: 22050 | 24000 | 44100 | 48000;
+  cartesiaEncoding?: PcmEncoding;
+  // Browser speechSynthesis voice (voiceURI; default voice when unset)
+  speechSynthesisVoice?: string;
+  // Generic streaming TTS server (protocol in utils/websocketTts.ts)
+  ttsServerUrl?: string;
+  ttsServerVoice?: string;
+  // Voice the model's [S:...] sentiment tag: TTS speed/emotion, or rate/gain for Gemini's own audio
+  emotionDelivery?: boolean; // Default on
+  emotionMaps?: Record<string, Partial<EmotionMap>>; // Per persona id, over the persona's own table
+  // Karaoke captions of the AI's speech over the preview, timed to playback (default on)
+  liveCaptions?: boolean;
   // Cost Optimization: Use TEXT mode output instead of AUDIO
-  // When enabled with Cartesia, Gemini outputs text ($2/1M) instead of audio ($12/1M)
+  // When enabled with a TTS provider, Gemini outputs text ($2/1M) instead of audio ($12/1M)
   // This is 44% cheaper overall but adds ~100-200ms latency
   useTextMode?: boolean;
 }
 
+export type LiveTransportType = 'gemini' | 'mock';
+
+export type TtsProviderType = 'gemini' | 'cartesia' | 'speechSynthesis' | 'websocket';
+
+export type MicMode = 'continuous' | 'vad' | 'pushToTalk';
+
+export interface MixerSettings {
+  micGain: number; // 0-2
+  screenMixLevel: number; // 0-1, screen audio level in the mix sent to the model
+  duckDepth: number; // 0-1, fraction of the screen mix level kept while the AI speaks
+  attackMs: number; // How fast screen audio drops when the AI starts speaking
+  holdMs: number; // How long to stay ducked after the AI goes quiet
+  releaseMs: number; // How fast screen audio comes back
+  // Duck on the measured loudness of AI output instead of counting playing buffers
+  sidechain: boolean;
+  sidechainThreshold: number; // Output RMS above which the AI counts as speaking
+}
+
 export interface CartesiaVoice {
   id: string;
   name: string;
@@ -43,5 +115,9 @@ export interface CartesiaVoice {
 export enum VideoSourceType {
   NONE = 'none',
   CAMERA = 'camera',
-  SCREEN = 'screen'
+  SCREEN = 'screen',
+  // Screen share with the webcam composited in (picture-in-picture or side by side)
+  CAMERA_SCREEN = 'camera_screen',
+  // Local video/audio file played in the preview; its audio takes the place of screen audio
+  FILE = 'file'
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+// Both spellings mean "system default output" to setSinkId
+const toSinkId = (deviceId: string) => (deviceId === 'default' ? '' : deviceId);
+
+// AudioContext.setSinkId isn't in every browser (or in the DOM typings yet)
+type SinkAwareAudioContext = AudioContext & { setSinkId?(sinkId: string): Promise<void> };
+
+const contextSupportsSinkId = (ctx: SinkAwareAudioContext) => typeof ctx.setSinkId === 'function';
+
+export const supportsOutputSelection = () =>
+  typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+/**
+ * Plays one node of an AudioContext on a chosen output device.
+ *
+ * The primary sink goes through the context's own destination and switches devices with
+ * `AudioContext.setSinkId`. Secondary sinks (or the primary one, on browsers without the
+ * context API) render through a MediaStream into a hidden <audio> element, whose
+ * `setSinkId` has wider support. One context can therefore feed several devices at once.
+ */
+export class OutputSink {
+  private ctx: SinkAwareAudioContext;
+  private source: AudioNode;
+  private primary: boolean;
+  private streamDestination: MediaStreamAudioDestinationNode | null = null;
+  private element: HTMLAudioElement | null = null;
+  private connectedToContext = false;
+
+  // `primary` sinks start out playing on the default device
+  constructor(ctx: AudioContext, source: AudioNode, primary: boolean) {
+    this.ctx = ctx;
+    this.source = source;
+    this.primary = primary;
+    if (primary) this.routeToContext();
+  }
+
+  async setDevice(deviceId: string) {
+    const sinkId = toSinkId(deviceId);
+    if (this.primary && (contextSupportsSinkId(this.ctx) || !sinkId)) {
+      this.routeToContext();
+      if (this.ctx.setSinkId) await this.ctx.setSinkId(sinkId);
+      return;
+    }
+    const element = this.routeToElement();
+    if (typeof element.setSinkId !== 'function') {
+      throw new Error('Output device selection is not supported in this browser');
+    }
+    await element.setSinkId(sinkId);
+  }
+
+  dispose() {
+    this.disconnectContext();
+    this.disconnectElement();
+  }
+
+  private routeToContext() {
+    this.disconnectElement();
+    if (this.connectedToContext) return;
+    this.source.connect(this.ctx.destination);
+    this.connectedToContext = true;
+  }
+
+  private routeToElement(): HTMLAudioElement {
+    this.disconnectContext();
+    if (this.element) return this.element;
+    this.streamDestination = this.ctx.createMediaStreamDestination();
+    this.source.connect(this.streamDestination);
+    const element = new Audio();
+    element.srcObject = this.streamDestination.stream;
+    element.play().catch(e => console.warn('Output sink playback blocked:', e));
+    this.element = element;
+    return element;
+  }
+
+  private disconnectContext() {
+    if (!this.connectedToContext) return;
+    try { this.source.disconnect(this.ctx.destination); } catch (e) {}
+    this.connectedToContext = false;
+  }
+
+  private disconnectElement() {
+    if (this.streamDestination) {
+      try { this.source.disconnect(this.streamDestination); } catch (e) {}
+      this.streamDestination = null;
+    }
+    if (this.element) {
+      this.element.pause();
+      this.element.srcObject = null;
+      this.element = null;
+    }
+  }
+}
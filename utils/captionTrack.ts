@@ -0,0 +1,178 @@
+// Words per caption line; a new model turn also starts a new line
+const MAX_LINE_WORDS = 10;
+// How long the last line stays up after its final word was spoken
+const CAPTION_HOLD_S = 2.5;
+// Rough speaking rate, used when transcription runs ahead of the audio it describes
+const SECONDS_PER_CHAR = 0.06;
+const CONTROL_TAG_REGEX = /^\[[A-Z_]+(?::[A-Z_]+)?\]$/i;
+
+export interface CaptionFrame {
+  words: string[]; // The visible line
+  spoken: number; // How many of them have started playing
+}
+
+interface CaptionWord {
+  text: string;
+  lineBreak: boolean; // Starts a new line
+  // Position in the speech stream (seconds of source audio), mapped to the playback clock once scheduled
+  streamStart: number;
+  streamEnd: number;
+  start: number | null; // Output context seconds
+  end: number | null;
+}
+
+interface ClockSegment {
+  streamStart: number;
+  streamEnd: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Karaoke captions for AI speech, aligned with the output context's playback clock.
+ *
+ * Word times arrive in "stream time": seconds into the speech audio as it was received (TTS
+ * word timestamps, or estimates spread over Gemini's audio from transcription chunks). Every
+ * scheduled audio chunk records where that stretch of stream lands on the playback clock, which
+ * absorbs jitter-buffer delay, underrun gaps and playback-rate changes.
+ */
+export class CaptionTrack {
+  private words: CaptionWord[] = [];
+  private segments: ClockSegment[] = [];
+  private streamTime = 0;
+  // Stream time covered by transcription so far (Gemini native audio)
+  private transcriptEnd = 0;
+  private pendingLineBreak = false;
+
+  // A new model turn: its words go on a fresh line and transcription restarts from here
+  startTurn() {
+    this.pendingLineBreak = true;
+    this.transcriptEnd = Math.max(this.transcriptEnd, this.streamTime);
+  }
+
+  /** Advances the stream by `seconds` of source audio, scheduled at `span` (null if nothing was queued yet). */
+  addAudio(seconds: number, span: { start: number; duration: number } | null) {
+    const streamStart = this.streamTime;
+    this.streamTime += seconds;
+    if (!span) return;
+    this.segments.push({ streamStart, streamEnd: this.streamTime, start: span.start, end: span.start + span.duration });
+    this.resolvePending();
+  }
+
+  /** Words with stream times, e.g. TTS word timestamps. */
+  addTimedWords(words: string[], starts: number[], ends: number[]) {
+    words.forEach((text, i) => {
+      if (text.trim()) this.push(text.trim(), starts[i] ?? this.streamTime, ends[i] ?? starts[i] ?? this.streamTime);
+    });
+    this.resolvePending();
+  }
+
+  /** A transcription chunk: spread over the audio received since the previous one, weighted by length. */
+  addTranscript(text: string) {
+    const words = text.split(/\s+/).filter(word => word && !CONTROL_TAG_REGEX.test(word));
+    if (words.length === 0) return;
+    const chars = words.reduce((sum, word) => sum + word.length, 0);
+    const from = this.transcriptEnd;
+    const to = Math.max(this.streamTime, from + chars * SECONDS_PER_CHAR);
+    let position = from;
+    words.forEach(word => {
+      const length = (to - from) * word.length / chars;
+      this.push(word, position, position + length);
+      position += length;
+    });
+    this.transcriptEnd = to;
+    this.resolvePending();
+  }
+
+  /** A word being spoken right now, for providers that play audio themselves. */
+  addSpokenWord(text: string, now: number) {
+    if (!text.trim()) return;
+    this.push(text.trim(), this.streamTime, this.streamTime);
+    const word = this.words[this.words.length - 1];
+    word.start = now;
+    word.end = now;
+  }
+
+  // Interrupted: drop the words, but keep the stream clock running (the TTS timeline continues)
+  clearWords() {
+    this.words = [];
+    this.segments = [];
+    this.transcriptEnd = this.streamTime;
+    this.pendingLineBreak = false;
+  }
+
+  // A new speech source (provider reconnected / switched): its timeline starts over
+  reset() {
+    this.clearWords();
+    this.streamTime = 0;
+    this.transcriptEnd = 0;
+  }
+
+  get isEmpty(): boolean {
+    return this.words.length === 0;
+  }
+
+  /** The line to show at playback time `now`, or null once everything was spoken and the hold ran out. */
+  frame(now: number): CaptionFrame | null {
+    if (this.words.length === 0) return null;
+    const last = this.words[this.words.length - 1];
+    if (last.end !== null && now > last.end + CAPTION_HOLD_S) {
+      // Nothing left to show; forget it so the list doesn't grow for the whole session
+      this.words = [];
+      this.segments = this.segments.slice(-1);
+      return null;
+    }
+
+    let spoken = 0;
+    while (spoken < this.words.length && this.words[spoken].start !== null && this.words[spoken].start! <= now) spoken++;
+
+    // The line holding the latest word to start (or the first line, before anything plays)
+    const focus = Math.max(spoken - 1, 0);
+    let lineStart = 0;
+    let count = 0;
+    for (let i = 0; i <= focus; i++) {
+      if (i > 0 && (this.words[i].lineBreak || count === MAX_LINE_WORDS)) {
+        lineStart = i;
+        count = 0;
+      }
+      count++;
+    }
+    let lineEnd = lineStart + 1;
+    while (lineEnd < this.words.length && lineEnd - lineStart < MAX_LINE_WORDS && !this.words[lineEnd].lineBreak) lineEnd++;
+
+    return {
+      words: this.words.slice(lineStart, lineEnd).map(word => word.text),
+      spoken: Math.max(0, Math.min(spoken, lineEnd) - lineStart),
+    };
+  }
+
+  private push(text: string, streamStart: number, streamEnd: number) {
+    // Control tags ([S:EXCITED] ...) are never spoken, but native-audio transcription may carry them
+    if (CONTROL_TAG_REGEX.test(text)) return;
+    this.words.push({ text, lineBreak: this.pendingLineBreak, streamStart, streamEnd, start: null, end: null });
+    this.pendingLineBreak = false;
+  }
+
+  // Map stream times to the playback clock for words whose audio has now been scheduled
+  private resolvePending() {
+    if (this.segments.length === 0) return;
+    const lastEnd = this.segments[this.segments.length - 1].streamEnd;
+    this.words.forEach(word => {
+      if (word.start !== null || word.streamStart >= lastEnd) return;
+      word.start = this.toPlaybackTime(word.streamStart);
+      word.end = this.toPlaybackTime(Math.min(word.streamEnd, lastEnd));
+    });
+  }
+
+  private toPlaybackTime(streamTime: number): number {
+    for (const segment of this.segments) {
+      if (streamTime < segment.streamEnd) {
+        // Falls in a stretch that was never scheduled (flushed, or swallowed by the resampler): use the next one
+        if (streamTime < segment.streamStart) return segment.start;
+        const ratio = (segment.end - segment.start) / (segment.streamEnd - segment.streamStart || 1);
+        return segment.start + (streamTime - segment.streamStart) * ratio;
+      }
+    }
+    return this.segments[this.segments.length - 1].end;
+  }
+}
@@ -0,0 +1,233 @@
+import { Blob } from '@google/genai';
+import { arrayBufferToBase64, PCM_SAMPLE_RATE } from './audioUtils';
+import { StreamingResampler } from './resampler';
+import { EnergyVad, DEFAULT_VAD_HANGOVER_MS, DEFAULT_VAD_PRE_ROLL_MS } from './vad';
+import { MicMode } from '../types';
+
+export const CAPTURE_PROCESSOR_NAME = 'pcm-capture';
+export const DEFAULT_CAPTURE_CHUNK_MS = 40;
+export const MIN_CAPTURE_CHUNK_MS = 20;
+export const MAX_CAPTURE_CHUNK_MS = 100;
+
+// Input slots on the capture node
+export const CAPTURE_INPUT_MIC = 0;
+export const CAPTURE_INPUT_SCREEN = 1;
+
+export const clampChunkMs = (ms: number | undefined) =>
+  Math.min(MAX_CAPTURE_CHUNK_MS, Math.max(MIN_CAPTURE_CHUNK_MS, ms || DEFAULT_CAPTURE_CHUNK_MS));
+
+export interface CaptureSettings {
+  chunkMs?: number;
+  micMode?: MicMode;
+  vadHangoverMs?: number;
+  vadPreRollMs?: number;
+}
+
+export interface CaptureHandlers {
+  onChunk: (blob: Blob) => void;
+  // Mic gate opened/closed (speech detected, push-to-talk held; always open in continuous mode)
+  onGateChange: (open: boolean) => void;
+}
+
+const resolveSettings = (settings: CaptureSettings) => ({
+  chunkMs: clampChunkMs(settings.chunkMs),
+  micMode: settings.micMode || 'continuous',
+  hangoverMs: settings.vadHangoverMs ?? DEFAULT_VAD_HANGOVER_MS,
+  preRollMs: settings.vadPreRollMs ?? DEFAULT_VAD_PRE_ROLL_MS,
+});
+
+/**
+ * Runs on the audio rendering thread. Mixes the mic and screen inputs to mono, resamples from
+ * the context's native rate to the model rate, converts to little-endian int16 and posts
+ * fixed-size chunks (transferred, not copied).
+ *
+ * In VAD and push-to-talk modes, chunks are only posted while the mic gate is open or screen
+ * audio is playing. A chunk that only goes out for the screen audio carries no mic. With VAD,
+ * chunks held back while the gate was closed form a pre-roll that is sent ahead of the first
+ * speech chunk, so the start of the utterance isn't lost.
+ * Push-to-talk silences the mic outright while the key is up and keeps no pre-roll.
+ *
+ * Kept as a string so it loads from a Blob URL without any bundler worker setup.
+ */
+const CAPTURE_WORKLET_SOURCE = `
+const Resampler = ${StreamingResampler.toString()};
+const Vad = ${EnergyVad.toString()};
+
+// Screen audio above this level keeps the stream flowing even when nobody is talking
+const SCREEN_ACTIVE_RMS = 0.003;
+
+function toInt16(sample) {
+  const s = sample > 1 ? 1 : (sample < -1 ? -1 : sample);
+  return s < 0 ? s * 0x8000 : s * 0x7FFF;
+}
+
+function mono(input, frames) {
+  if (!input || input.length === 0) return null;
+  const out = new Float32Array(frames);
+  const gain = 1 / input.length;
+  for (const channel of input) {
+    for (let i = 0; i < channel.length; i++) out[i] += channel[i] * gain;
+  }
+  return out;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const settings = options.processorOptions;
+    this.targetRate = settings.targetRate;
+    // Mic and screen are resampled apart so a chunk can go out with the mic left out
+    this.micResampler = new Resampler(sampleRate, this.targetRate);
+    this.screenResampler = new Resampler(sampleRate, this.targetRate);
+    this.silence = new Float32Array(128);
+    this.pttPressed = false;
+    this.gateOpen = false;
+    this.screenHoldLeft = 0;
+    this.gateInChunk = false;
+    this.screenInChunk = false;
+    this.preRoll = [];
+    this.applySettings(settings);
+    this.port.onmessage = (e) => {
+      if (!e.data) return;
+      if (e.data.settings) this.applySettings(e.data.settings);
+      if (typeof e.data.pttPressed === 'boolean') this.pttPressed = e.data.pttPressed;
+    };
+  }
+
+  applySettings(settings) {
+    const chunkSize = Math.max(128, Math.round(this.targetRate * settings.chunkMs / 1000));
+    if (chunkSize !== this.chunkSize) {
+      this.chunkSize = chunkSize;
+      this.chunk = new Int16Array(this.chunkSize);
+      this.screenChunk = new Int16Array(this.chunkSize);
+      this.offset = 0;
+      this.preRoll = [];
+    }
+    if (settings.micMode !== this.micMode || settings.hangoverMs !== this.hangoverMs) {
+      this.micMode = settings.micMode;
+      this.hangoverMs = settings.hangoverMs;
+      this.vad = new Vad(sampleRate, settings.hangoverMs);
+      this.preRoll = [];
+    }
+    this.hangoverSamples = Math.round(sampleRate * settings.hangoverMs / 1000);
+    this.maxPreRollChunks = Math.ceil(settings.preRollMs / settings.chunkMs);
+  }
+
+  reportGate(open) {
+    if (open === this.gateOpen) return;
+    this.gateOpen = open;
+    this.port.postMessage({ type: 'gate', open });
+  }
+
+  process(inputs) {
+    const frames = 128;
+    const mic = mono(inputs[${CAPTURE_INPUT_MIC}], frames);
+    const screen = mono(inputs[${CAPTURE_INPUT_SCREEN}], frames);
+    if (!mic && !screen) return true;
+
+    let gate = true;
+    if (this.micMode === 'pushToTalk') gate = this.pttPressed;
+    else if (this.micMode === 'vad') gate = mic ? this.vad.process(mic) : false;
+    this.reportGate(gate);
+
+    if (screen) {
+      let sum = 0;
+      for (let i = 0; i < frames; i++) sum += screen[i] * screen[i];
+      if (Math.sqrt(sum / frames) > SCREEN_ACTIVE_RMS) this.screenHoldLeft = this.hangoverSamples;
+      else this.screenHoldLeft -= frames;
+    }
+    if (gate) this.gateInChunk = true;
+    if (this.screenHoldLeft > 0) this.screenInChunk = true;
+
+    const micAudible = this.micMode !== 'pushToTalk' || this.pttPressed;
+    const micSamples = this.micResampler.process(mic && micAudible ? mic : this.silence);
+    const screenSamples = this.screenResampler.process(screen || this.silence);
+    for (let i = 0; i < micSamples.length; i++) {
+      this.chunk[this.offset] = toInt16(micSamples[i] + screenSamples[i]);
+      this.screenChunk[this.offset] = toInt16(screenSamples[i]);
+      this.offset++;
+      if (this.offset === this.chunkSize) {
+        this.finishChunk();
+      }
+    }
+    return true;
+  }
+
+  finishChunk() {
+    const chunk = this.chunk;
+    const screenChunk = this.screenChunk;
+    this.chunk = new Int16Array(this.chunkSize);
+    this.screenChunk = new Int16Array(this.chunkSize);
+    this.offset = 0;
+
+    if (this.gateInChunk) {
+      for (const held of this.preRoll) this.port.postMessage({ type: 'chunk', buffer: held.buffer }, [held.buffer]);
+      this.preRoll = [];
+      this.port.postMessage({ type: 'chunk', buffer: chunk.buffer }, [chunk.buffer]);
+    } else if (this.screenInChunk) {
+      // Gate closed: only the screen audio goes out, and the held mic audio is now out of date
+      this.preRoll = [];
+      this.port.postMessage({ type: 'chunk', buffer: screenChunk.buffer }, [screenChunk.buffer]);
+    } else if (this.micMode === 'vad') {
+      this.preRoll.push(chunk);
+      if (this.preRoll.length > this.maxPreRollChunks) this.preRoll.shift();
+    }
+    this.gateInChunk = false;
+    this.screenInChunk = false;
+  }
+}
+
+registerProcessor('${CAPTURE_PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+// addModule must run once per AudioContext
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+function loadCaptureWorklet(ctx: BaseAudioContext): Promise<void> {
+  let loading = loadedContexts.get(ctx);
+  if (!loading) {
+    const url = URL.createObjectURL(new window.Blob([CAPTURE_WORKLET_SOURCE], { type: 'application/javascript' }));
+    loading = ctx.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    loadedContexts.set(ctx, loading);
+  }
+  return loading;
+}
+
+/**
+ * Creates the capture node. Connect the mic chain to input CAPTURE_INPUT_MIC and screen audio
+ * to CAPTURE_INPUT_SCREEN; `onChunk` receives ready-to-send 16-bit PCM blobs.
+ */
+export async function createCaptureNode(
+  ctx: AudioContext,
+  settings: CaptureSettings,
+  handlers: CaptureHandlers
+): Promise<AudioWorkletNode> {
+  await loadCaptureWorklet(ctx);
+  const node = new AudioWorkletNode(ctx, CAPTURE_PROCESSOR_NAME, {
+    numberOfInputs: 2,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    channelCountMode: 'explicit',
+    channelCount: 1,
+    processorOptions: { ...resolveSettings(settings), targetRate: PCM_SAMPLE_RATE },
+  });
+  node.port.onmessage = (e: MessageEvent<{ type: 'chunk'; buffer: ArrayBuffer } | { type: 'gate'; open: boolean }>) => {
+    if (e.data.type === 'gate') {
+      handlers.onGateChange(e.data.open);
+      return;
+    }
+    handlers.onChunk({
+      data: arrayBufferToBase64(e.data.buffer),
+      mimeType: `audio/pcm;rate=${PCM_SAMPLE_RATE}`,
+    });
+  };
+  return node;
+}
+
+export function updateCaptureSettings(node: AudioWorkletNode, settings: CaptureSettings) {
+  node.port.postMessage({ settings: resolveSettings(settings) });
+}
+
+export function setCapturePushToTalk(node: AudioWorkletNode, pressed: boolean) {
+  node.port.postMessage({ pttPressed: pressed });
+}
@@ -1,4 +1,10 @@
 import { CartesiaVoice } from "../types";
+import { PcmFormat, decodePcm } from "./resampler";
+import { base64ToUint8Array } from "./audioUtils";
+import { SocketTts } from "./socketTts";
+import type { TtsCallbacks, TtsVoice } from "./ttsProvider";
+
+export const CARTESIA_DEFAULT_FORMAT: PcmFormat = { sampleRate: 44100, encoding: 'f32' };
 
 export async function fetchCartesiaVoices(apiKey: string): Promise<CartesiaVoice[]> {
   const response = await fetch("https://api.cartesia.ai/voices", {
@@ -18,125 +24,99 @@ export async function fetchCartesiaVoices(apiKey: string): Promise<CartesiaVoice
   return data as CartesiaVoice[];
 }
 
-export class CartesiaClient {
-  private ws: WebSocket | null = null;
+/**
+ * Cartesia Sonic over its streaming WebSocket API. Text for one model turn goes out as
+ * continuations of a single context; audio comes back as base64 PCM chunks.
+ */
+export class CartesiaClient extends SocketTts {
+  readonly name = 'Cartesia';
   private apiKey: string;
   private voiceId: string;
-  private onAudioCallback: (audioData: Float32Array) => void;
-  private contextId: string;
-  private isConnected: boolean = false;
-  private isFlushing: boolean = false;
 
-  constructor(apiKey: string, voiceId: string, onAudioCallback: (data: Float32Array) => void) {
+  constructor(apiKey: string, voiceId: string, callbacks: TtsCallbacks, outputFormat: PcmFormat = CARTESIA_DEFAULT_FORMAT) {
+    super(callbacks, outputFormat);
     this.apiKey = apiKey;
     this.voiceId = voiceId;
-    this.onAudioCallback = onAudioCallback;
-    this.contextId = this.generateContextId();
-  }
-
-  private generateContextId(): string {
-    return `ctx_${Date.now()}_${Math.random().toString(36).substring(7)}`;
   }
 
-  connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      // Using the Cartesia WebSocket URL
-      this.ws = new WebSocket(`wss://api.cartesia.ai/tts/websocket?api_key=${this.apiKey}&cartesia_version=2024-06-10`);
-      this.ws.binaryType = 'arraybuffer';
-
-      this.ws.onopen = () => {
-        this.isConnected = true;
-        resolve();
-      };
-
-      this.ws.onerror = (err) => {
-        console.error("Cartesia WS Error", err);
-        reject(err);
-      };
-
-      this.ws.onmessage = (event) => {
-        const data = event.data;
-        if (typeof data === 'string') {
-          const json = JSON.parse(data);
-          if (json.audio) {
-            // Determine encoding and convert
-            // Usually Cartesia sends raw base64 in the JSON for 'audio' field
-            // But if we requested raw bytes, it might come differently.
-            // Let's assume standard JSON response for now based on docs.
-            const binaryString = atob(json.audio);
-            const bytes = new Uint8Array(binaryString.length);
-            for (let i = 0; i < binaryString.length; i++) {
-              bytes[i] = binaryString.charCodeAt(i);
-            }
-            // Convert raw PCM bytes (assuming f32le) to Float32Array
-            const float32 = new Float32Array(bytes.buffer);
-            this.onAudioCallback(float32);
-          }
-        }
-      };
-    });
+  protected socketUrl(): string {
+    return `wss://api.cartesia.ai/tts/websocket?api_key=${this.apiKey}&cartesia_version=2024-06-10`;
   }
 
-  send(text: string) {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
-    if (this.isFlushing) return; // Don't send while flushing
-
-    const payload = {
+  protected textMessage(contextId: string, text: string, isFinal: boolean = false): object {
+    return {
       model_id: "sonic-english",
       transcript: text,
       voice: {
         mode: "id",
-        id: this.voiceId
+        id: this.voiceId,
+        __experimental_controls: this.voiceControls()
       },
       output_format: {
         container: "raw",
-        encoding: "pcm_f32le",
-        sample_rate: 44100 // Requesting high quality
+        encoding: this.outputFormat.encoding === 'f32' ? "pcm_f32le" : "pcm_s16le",
+        sample_rate: this.outputFormat.sampleRate
       },
-      context_id: this.contextId,
-      continue: true // Streaming mode
+      context_id: contextId,
+      add_timestamps: true, // Word timings for the live captions
+      continue: !isFinal // Streaming mode until the turn ends
     };
-
-    this.ws.send(JSON.stringify(payload));
   }
 
-  /**
-   * Flush/cancel current TTS generation.
-   * This is called when the user interrupts the AI mid-speech.
-   * We reset the context_id to start fresh for the next response.
-   */
-  flush() {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+  // Speed runs -1 (slowest) to 1 (fastest); emotions are "<name>[:<level>]" strings
+  private voiceControls(): object | undefined {
+    const { speed, emotions } = this.delivery;
+    const emotion = emotions.filter(Boolean);
+    if (speed === 0 && emotion.length === 0) return undefined;
+    return { speed, emotion };
+  }
 
-    this.isFlushing = true;
+  // An empty, non-continuing transcript closes the context
+  protected finishMessage(contextId: string): object {
+    return this.textMessage(contextId, '', true);
+  }
 
-    // Send cancel command for current context
-    const cancelPayload = {
-      context_id: this.contextId,
-      cancel: true
-    };
+  protected cancelMessage(contextId: string): object {
+    return { context_id: contextId, cancel: true };
+  }
 
+  protected handleMessage(data: string | ArrayBuffer) {
+    if (typeof data !== 'string') return;
+    let json: any;
     try {
-      this.ws.send(JSON.stringify(cancelPayload));
+      json = JSON.parse(data);
     } catch (e) {
-      console.error("Failed to send cancel to Cartesia:", e);
+      console.warn("Unparseable Cartesia message", data);
+      return;
     }
 
-    // Generate new context for next generation
-    this.contextId = this.generateContextId();
-
-    // Allow sending again after a brief delay
-    setTimeout(() => {
-      this.isFlushing = false;
-    }, 50);
+    if (json.type === 'error') {
+      this.callbacks.onError?.(json.error || json.message || `Request failed (status ${json.status_code ?? 'unknown'})`);
+      return;
+    }
+    if (!this.isLiveContext(json.context_id)) return;
+
+    switch (json.type) {
+      case 'timestamps':
+        if (json.word_timestamps) this.emitTimestamps(json.context_id, json.word_timestamps);
+        break;
+      case 'done':
+        this.callbacks.onDone?.();
+        break;
+      default: {
+        // 'chunk' carries base64 PCM in `data`; older API versions used `audio`
+        const audio = json.data ?? json.audio;
+        if (typeof audio === 'string') {
+          // Convert raw PCM bytes (f32le or s16le, as requested) to Float32Array
+          this.emitAudio(json.context_id, decodePcm(base64ToUint8Array(audio), this.outputFormat.encoding));
+        }
+        if (json.done) this.callbacks.onDone?.();
+      }
+    }
   }
 
-  disconnect() {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
-    this.isConnected = false;
-    this.isFlushing = false;
+  async listVoices(): Promise<TtsVoice[]> {
+    const voices = await fetchCartesiaVoices(this.apiKey);
+    return voices.map(voice => ({ id: voice.id, name: voice.name, description: voice.description, language: voice.language }));
   }
-}
\ No newline at end of file
+}
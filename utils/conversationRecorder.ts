@@ -0,0 +1,328 @@
+import { encodeWav, float32ToInt16 } from './audioUtils';
+
+export type RecordingSource = 'mic' | 'screen' | 'ai';
+
+const RECORDING_SOURCES: RecordingSource[] = ['mic', 'screen', 'ai'];
+
+const TAP_PROCESSOR_NAME = 'pcm-tap';
+const VIDEO_FPS = 30;
+const VIDEO_MAX_WIDTH = 1280;
+
+export interface ConversationRecorderOptions {
+  // Draw this element into the recording (whatever the Live Feed shows, across source switches)
+  videoElement?: HTMLVideoElement | null;
+  // Also keep each source as its own WAV file (uncompressed, ~100KB/s per source)
+  wavStems?: boolean;
+}
+
+export interface ConversationRecordingResult {
+  startedAt: string;
+  durationMs: number;
+  mix: Blob; // WebM (audio-only unless video was recorded)
+  stems: { source: RecordingSource; wav: Blob }[];
+}
+
+/**
+ * Posts copies of its input, batched, with the context frame each batch started at so
+ * the main thread can line stems up (and pad silence) against one timeline.
+ */
+const TAP_WORKLET_SOURCE = `
+const BATCH_FRAMES = 4096;
+
+class PcmTapProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.batch = new Float32Array(BATCH_FRAMES);
+    this.offset = 0;
+    this.batchFrame = 0;
+  }
+
+  flush() {
+    if (this.offset === 0) return;
+    const samples = this.batch.slice(0, this.offset);
+    this.port.postMessage({ frame: this.batchFrame, samples }, [samples.buffer]);
+    this.offset = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) {
+      // Disconnected: nothing to write, the gap is filled with silence later
+      this.flush();
+      return true;
+    }
+    if (this.offset === 0) this.batchFrame = currentFrame;
+    const channel = input[0];
+    this.batch.set(channel, this.offset);
+    this.offset += channel.length;
+    if (this.offset + 128 > BATCH_FRAMES) this.flush();
+    return true;
+  }
+}
+
+registerProcessor('${TAP_PROCESSOR_NAME}', PcmTapProcessor);
+`;
+
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+function loadTapWorklet(ctx: BaseAudioContext): Promise<void> {
+  let loading = loadedContexts.get(ctx);
+  if (!loading) {
+    const url = URL.createObjectURL(new window.Blob([TAP_WORKLET_SOURCE], { type: 'application/javascript' }));
+    loading = ctx.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    loadedContexts.set(ctx, loading);
+  }
+  return loading;
+}
+
+function pickMimeType(withVideo: boolean): string {
+  const candidates = withVideo
+    ? ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm']
+    : ['audio/webm;codecs=opus', 'audio/webm'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || '';
+}
+
+interface Stem {
+  chunks: Int16Array[];
+  frames: number;
+  used: boolean;
+}
+
+interface AttachedSource {
+  node: AudioNode;
+  input: AudioNode; // Node in the recorder's context (a bridge when `node` lives elsewhere)
+  bridge: MediaStreamAudioDestinationNode | null;
+}
+
+/**
+ * Records the conversation as heard: mic, shared screen audio and AI speech mixed into a
+ * WebM via MediaRecorder, optionally with the video element, plus optional per-source
+ * WAV stems that stay sample-aligned with each other.
+ *
+ * Runs in one AudioContext; sources from another context (mic/screen live in the capture
+ * context) are bridged in through a MediaStream. Sources can come and go mid-recording.
+ */
+export class ConversationRecorder {
+  private ctx: AudioContext;
+  private options: ConversationRecorderOptions;
+  private mixBus: GainNode;
+  private mixDestination: MediaStreamAudioDestinationNode;
+  private mediaRecorder: MediaRecorder | null = null;
+  private mediaChunks: Blob[] = [];
+  private attached = new Map<RecordingSource, AttachedSource>();
+  private taps = new Map<RecordingSource, AudioWorkletNode>();
+  private stems = new Map<RecordingSource, Stem>();
+  private videoTrack: MediaStreamTrack | null = null;
+  private drawInterval: number | null = null;
+  private startFrame = 0;
+  private startTime = 0;
+  private startedAt = new Date();
+  private active = false;
+
+  constructor(ctx: AudioContext, options: ConversationRecorderOptions = {}) {
+    this.ctx = ctx;
+    this.options = options;
+    this.mixBus = ctx.createGain();
+    this.mixDestination = ctx.createMediaStreamDestination();
+    this.mixBus.connect(this.mixDestination);
+  }
+
+  get isRecording(): boolean {
+    return this.active;
+  }
+
+  async start() {
+    if (this.active) return;
+    if (this.options.wavStems) {
+      await loadTapWorklet(this.ctx);
+      for (const source of RECORDING_SOURCES) this.createTap(source);
+    }
+
+    const stream = new MediaStream(this.mixDestination.stream.getAudioTracks());
+    const video = this.options.videoElement;
+    if (video) {
+      stream.addTrack(this.startVideoCapture(video));
+    }
+
+    this.mediaChunks = [];
+    this.mediaRecorder = new MediaRecorder(stream, { mimeType: pickMimeType(!!video) || undefined });
+    this.mediaRecorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.mediaChunks.push(e.data);
+    };
+    this.mediaRecorder.start(1000);
+
+    this.startFrame = Math.round(this.ctx.currentTime * this.ctx.sampleRate);
+    this.startTime = Date.now();
+    this.startedAt = new Date();
+    this.active = true;
+
+    // Sources attached before start() are already wired into the mix; hook them to their taps too
+    this.attached.forEach((attached, source) => this.connectTap(source, attached.input));
+  }
+
+  // Sets (or clears, with null) the node whose output is recorded as `source`
+  setSource(source: RecordingSource, node: AudioNode | null) {
+    const current = this.attached.get(source);
+    if (current?.node === node) return;
+    if (current) {
+      this.detach(source, current);
+      this.attached.delete(source);
+    }
+    if (!node) return;
+
+    let input = node;
+    let bridge: MediaStreamAudioDestinationNode | null = null;
+    if (node.context !== this.ctx) {
+      bridge = (node.context as AudioContext).createMediaStreamDestination();
+      node.connect(bridge);
+      input = this.ctx.createMediaStreamSource(bridge.stream);
+    }
+    input.connect(this.mixBus);
+    this.connectTap(source, input);
+    this.attached.set(source, { node, input, bridge });
+  }
+
+  async stop(): Promise<ConversationRecordingResult> {
+    this.active = false;
+    const durationMs = Date.now() - this.startTime;
+    const totalFrames = Math.round(this.ctx.currentTime * this.ctx.sampleRate) - this.startFrame;
+
+    this.attached.forEach((attached, source) => this.detach(source, attached));
+    this.attached.clear();
+    this.taps.forEach(tap => {
+      tap.port.onmessage = null;
+      tap.disconnect();
+    });
+    this.taps.clear();
+    this.stopVideoCapture();
+    this.mixBus.disconnect();
+
+    const recorder = this.mediaRecorder;
+    this.mediaRecorder = null;
+    if (recorder && recorder.state !== 'inactive') {
+      await new Promise<void>(resolve => {
+        recorder.onstop = () => resolve();
+        recorder.stop();
+      });
+    }
+
+    const stems: ConversationRecordingResult['stems'] = [];
+    this.stems.forEach((stem, source) => {
+      if (!stem.used) return;
+      this.padStem(stem, totalFrames);
+      const samples = new Int16Array(stem.frames);
+      let offset = 0;
+      for (const chunk of stem.chunks) {
+        samples.set(chunk.subarray(0, Math.min(chunk.length, stem.frames - offset)), offset);
+        offset += chunk.length;
+        if (offset >= stem.frames) break;
+      }
+      stems.push({ source, wav: new window.Blob([encodeWav(samples, this.ctx.sampleRate)], { type: 'audio/wav' }) });
+    });
+    this.stems.clear();
+
+    return {
+      startedAt: this.startedAt.toISOString(),
+      durationMs,
+      mix: new window.Blob(this.mediaChunks, { type: recorder?.mimeType || 'video/webm' }),
+      stems,
+    };
+  }
+
+  // Only undoes the recorder's own connections: same-context nodes keep feeding the live graph
+  private detach(source: RecordingSource, { node, input, bridge }: AttachedSource) {
+    try { input.disconnect(this.mixBus); } catch (e) {}
+    const tap = this.taps.get(source);
+    if (tap) {
+      try { input.disconnect(tap); } catch (e) {}
+    }
+    if (bridge) {
+      try { node.disconnect(bridge); } catch (e) {}
+    }
+  }
+
+  private createTap(source: RecordingSource) {
+    const tap = new AudioWorkletNode(this.ctx, TAP_PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCountMode: 'explicit',
+      channelCount: 1,
+    });
+    const stem: Stem = { chunks: [], frames: 0, used: false };
+    tap.port.onmessage = (e: MessageEvent<{ frame: number; samples: Float32Array }>) => {
+      if (!this.active) return;
+      const offset = e.data.frame - this.startFrame;
+      if (offset < 0) return;
+      this.padStem(stem, offset);
+      stem.chunks.push(float32ToInt16(e.data.samples));
+      stem.frames = offset + e.data.samples.length;
+    };
+    // Output is silent; connecting to the destination keeps the node pulled
+    tap.connect(this.ctx.destination);
+    this.taps.set(source, tap);
+    this.stems.set(source, stem);
+  }
+
+  private connectTap(source: RecordingSource, input: AudioNode) {
+    const tap = this.taps.get(source);
+    const stem = this.stems.get(source);
+    if (!tap || !stem) return;
+    input.connect(tap);
+    stem.used = true;
+  }
+
+  // Fill a gap (source detached or not yet attached) with silence
+  private padStem(stem: Stem, frames: number) {
+    if (frames > stem.frames) {
+      stem.chunks.push(new Int16Array(frames - stem.frames));
+      stem.frames = frames;
+    }
+  }
+
+  // Redraws the element onto a fixed-size canvas so switching sources doesn't change the track
+  private startVideoCapture(video: HTMLVideoElement): MediaStreamTrack {
+    const canvas = document.createElement('canvas');
+    const aspect = video.videoWidth && video.videoHeight ? video.videoHeight / video.videoWidth : 9 / 16;
+    canvas.width = Math.min(VIDEO_MAX_WIDTH, video.videoWidth || VIDEO_MAX_WIDTH);
+    canvas.height = Math.round(canvas.width * aspect);
+    const ctx = canvas.getContext('2d')!;
+
+    this.drawInterval = window.setInterval(() => {
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      if (video.readyState < 2 || !video.videoWidth) return;
+      // Letterbox to keep the source's aspect ratio
+      const scale = Math.min(canvas.width / video.videoWidth, canvas.height / video.videoHeight);
+      const w = video.videoWidth * scale;
+      const h = video.videoHeight * scale;
+      ctx.drawImage(video, (canvas.width - w) / 2, (canvas.height - h) / 2, w, h);
+    }, 1000 / VIDEO_FPS);
+
+    this.videoTrack = canvas.captureStream(VIDEO_FPS).getVideoTracks()[0];
+    return this.videoTrack;
+  }
+
+  private stopVideoCapture() {
+    if (this.drawInterval) {
+      clearInterval(this.drawInterval);
+      this.drawInterval = null;
+    }
+    this.videoTrack?.stop();
+    this.videoTrack = null;
+  }
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadConversationRecording(result: ConversationRecordingResult) {
+  const base = `omni-recording-${result.startedAt.replace(/[:.]/g, '-')}`;
+  downloadBlob(result.mix, `${base}.webm`);
+  result.stems.forEach(({ source, wav }) => downloadBlob(wav, `${base}-${source}.wav`));
+}
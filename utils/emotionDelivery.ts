@@ -0,0 +1,51 @@
+import type { LogEntry, StreamConfig } from '../types';
+import { getPersona } from './personas';
+
+export type Sentiment = NonNullable<LogEntry['sentiment']>;
+
+export const SENTIMENTS: Sentiment[] = ['neutral', 'positive', 'excited', 'surprised', 'negative'];
+
+// The tag the personas ask the model to lead each turn with (see SENTIMENT_TAGGING)
+export const SENTIMENT_TAG_REGEX = /\[S:(POSITIVE|NEGATIVE|SURPRISED|NEUTRAL|EXCITED)\]/i;
+
+/**
+ * How one sentiment should sound. TTS providers with their own controls use speed / emotions;
+ * Gemini's native audio can only be sped up (which also raises the pitch) and made louder.
+ */
+export interface EmotionDelivery {
+  speed: number; // -1 (slowest) to 1 (fastest), 0 = normal
+  emotions: string[]; // Cartesia emotion controls, e.g. 'positivity:high', 'surprise'
+  playbackRate: number; // Native audio, 0.8-1.25
+  gain: number; // Native audio, 0.5-1.5
+}
+
+export type EmotionMap = Record<Sentiment, EmotionDelivery>;
+
+export const NEUTRAL_DELIVERY: EmotionDelivery = { speed: 0, emotions: [], playbackRate: 1, gain: 1 };
+
+export const DEFAULT_EMOTION_MAP: EmotionMap = {
+  neutral: NEUTRAL_DELIVERY,
+  positive: { speed: 0.1, emotions: ['positivity:high'], playbackRate: 1.03, gain: 1.05 },
+  excited: { speed: 0.6, emotions: ['positivity:highest', 'surprise'], playbackRate: 1.1, gain: 1.25 },
+  surprised: { speed: 0.3, emotions: ['surprise:high'], playbackRate: 1.06, gain: 1.15 },
+  negative: { speed: -0.2, emotions: ['anger:low', 'sadness:low'], playbackRate: 0.97, gain: 1 },
+};
+
+// Cartesia's emotion names; each takes an optional ':lowest' ... ':highest' level
+export const CARTESIA_EMOTIONS = ['anger', 'positivity', 'surprise', 'sadness', 'curiosity'];
+
+export function parseSentimentTag(text: string): Sentiment | null {
+  const match = text.match(SENTIMENT_TAG_REGEX);
+  return match ? match[1].toLowerCase() as Sentiment : null;
+}
+
+// Built-in defaults, then the persona's own table, then the user's edits for that persona
+export function resolveEmotionMap(config: StreamConfig): EmotionMap {
+  const personaMap = getPersona(config.persona).emotionMap;
+  const userMap = config.emotionMaps?.[config.persona];
+  const map = {} as EmotionMap;
+  SENTIMENTS.forEach(sentiment => {
+    map[sentiment] = { ...DEFAULT_EMOTION_MAP[sentiment], ...personaMap?.[sentiment], ...userMap?.[sentiment] };
+  });
+  return map;
+}
@@ -0,0 +1,38 @@
+type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter. `Events` maps event names to payload types:
+ *
+ *   class Foo extends EventEmitter<{ tick: number }> {}
+ *   foo.on('tick', n => ...)
+ */
+export class EventEmitter<Events extends Record<string, any>> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  // Returns an unsubscribe function
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    if (!this.listeners[event]) {
+      this.listeners[event] = new Set();
+    }
+    this.listeners[event]!.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    this.listeners[event]?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (e) {
+        console.error(`Error in '${String(event)}' listener:`, e);
+      }
+    });
+  }
+
+  removeAllListeners() {
+    this.listeners = {};
+  }
+}
@@ -0,0 +1,111 @@
+import { PixelRect } from './regionOfInterest';
+
+export type CompositeLayout = 'pip' | 'sideBySide';
+export type PipPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface CompositeSettings {
+  layout: CompositeLayout;
+  pipPosition: PipPosition;
+  pipScale: number; // Webcam width as a fraction of the screen width (pip layout)
+}
+
+export const DEFAULT_COMPOSITE_SETTINGS: CompositeSettings = {
+  layout: 'pip',
+  pipPosition: 'bottom-right',
+  pipScale: 0.25,
+};
+
+// Gap between the PiP and the frame edge, as a fraction of the frame width
+const PIP_MARGIN = 0.02;
+
+export interface Placement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CompositeLayoutResult {
+  width: number;
+  height: number;
+  main: Placement;
+  camera: Placement;
+}
+
+/**
+ * Places the (already sized) screen image and the webcam in one output frame.
+ * `pip` overlays the webcam in a corner of the screen; `sideBySide` puts it to the right
+ * at the screen's height.
+ */
+export function layoutComposite(
+  mainWidth: number,
+  mainHeight: number,
+  cameraWidth: number,
+  cameraHeight: number,
+  settings: CompositeSettings
+): CompositeLayoutResult {
+  const cameraAspect = cameraWidth && cameraHeight ? cameraWidth / cameraHeight : 4 / 3;
+  const main = { x: 0, y: 0, width: mainWidth, height: mainHeight };
+
+  if (settings.layout === 'sideBySide') {
+    const width = Math.round(mainHeight * cameraAspect);
+    return {
+      width: mainWidth + width,
+      height: mainHeight,
+      main,
+      camera: { x: mainWidth, y: 0, width, height: mainHeight },
+    };
+  }
+
+  const scale = Math.min(0.5, Math.max(0.1, settings.pipScale));
+  const width = Math.round(mainWidth * scale);
+  const height = Math.round(width / cameraAspect);
+  const margin = Math.round(mainWidth * PIP_MARGIN);
+  const right = settings.pipPosition.endsWith('right');
+  const bottom = settings.pipPosition.startsWith('bottom');
+  return {
+    width: mainWidth,
+    height: mainHeight,
+    main,
+    camera: {
+      x: right ? mainWidth - width - margin : margin,
+      y: bottom ? mainHeight - height - margin : margin,
+      width,
+      height,
+    },
+  };
+}
+
+/** Draws the screen crop and the webcam into `canvas`, resizing it to the composite. Returns the layout used. */
+export function drawComposite(
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D,
+  screen: HTMLVideoElement,
+  screenRegion: PixelRect,
+  screenScale: number,
+  camera: HTMLVideoElement,
+  settings: CompositeSettings
+): CompositeLayoutResult {
+  const layout = layoutComposite(
+    Math.round(screenRegion.sw * screenScale),
+    Math.round(screenRegion.sh * screenScale),
+    camera.videoWidth,
+    camera.videoHeight,
+    settings
+  );
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+
+  const { sx, sy, sw, sh } = screenRegion;
+  const { main, camera: pip } = layout;
+  ctx.drawImage(screen, sx, sy, sw, sh, main.x, main.y, main.width, main.height);
+  if (camera.readyState >= camera.HAVE_CURRENT_DATA) {
+    ctx.drawImage(camera, pip.x, pip.y, pip.width, pip.height);
+    if (settings.layout === 'pip') {
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(pip.x, pip.y, pip.width, pip.height);
+    }
+  }
+  return layout;
+}
@@ -0,0 +1,180 @@
+import { arrayBufferToBase64 } from './audioUtils';
+import { PixelRect } from './regionOfInterest';
+
+export type VideoFrameFormat = 'jpeg' | 'webp';
+
+export const DEFAULT_VIDEO_FORMAT: VideoFrameFormat = 'jpeg';
+export const DEFAULT_VIDEO_QUALITY = 0.6;
+export const DEFAULT_VIDEO_MAX_WIDTH = 1920;
+export const DEFAULT_VIDEO_MAX_HEIGHT = 1080;
+
+export interface FrameEncoderSettings {
+  format: VideoFrameFormat;
+  quality: number; // 0-1
+  maxWidth: number;
+  maxHeight: number;
+}
+
+export interface EncodedFrame {
+  mimeType: string; // What the browser actually produced (WebP falls back to PNG where unsupported)
+  data: string; // Base64, no data: prefix
+}
+
+interface EncodeResponse {
+  id: number;
+  mimeType?: string;
+  data?: string;
+  error?: string;
+}
+
+/**
+ * Receives a transferred ImageBitmap (already cropped and scaled), encodes it with
+ * OffscreenCanvas and base64-encodes the bytes, all off the main thread.
+ *
+ * Kept as a string so it loads from a Blob URL without any bundler worker setup.
+ */
+const ENCODER_WORKER_SOURCE = `
+const toBase64 = ${arrayBufferToBase64.toString()};
+
+let canvas = null;
+let ctx = null;
+
+self.onmessage = async (e) => {
+  const { id, bitmap, mimeType, quality } = e.data;
+  try {
+    if (!canvas) {
+      canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+      ctx = canvas.getContext('2d');
+    }
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const blob = await canvas.convertToBlob({ type: mimeType, quality });
+    self.postMessage({ id, mimeType: blob.type, data: toBase64(await blob.arrayBuffer()) });
+  } catch (err) {
+    bitmap.close();
+    self.postMessage({ id, error: String(err && err.message || err) });
+  }
+};
+`;
+
+const supportsWorkerEncoding = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+// Largest size within both the pixel dimensions given and the configured maximums, keeping the aspect ratio
+export function fitFrameSize(width: number, height: number, settings: FrameEncoderSettings): { width: number; height: number } {
+  const scale = Math.min(1, settings.maxWidth / width, settings.maxHeight / height);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Turns video frames into base64 images for the model.
+ *
+ * Grabbing is an ImageBitmap (cropped and resized by the browser), handed to a Worker by
+ * transfer; JPEG/WebP encoding and base64 happen there. Browsers without OffscreenCanvas
+ * fall back to toDataURL on the main thread. One frame is in flight at a time: callers
+ * should drop frames while `isBusy` rather than queue them.
+ */
+export class FrameEncoder {
+  private worker: Worker | null = null;
+  private pending = new Map<number, (frame: EncodedFrame | null) => void>();
+  private nextId = 0;
+  private fallbackCanvas: HTMLCanvasElement | null = null;
+  private busy = false;
+
+  constructor() {
+    if (!supportsWorkerEncoding()) return;
+    const url = URL.createObjectURL(new window.Blob([ENCODER_WORKER_SOURCE], { type: 'application/javascript' }));
+    try {
+      this.worker = new Worker(url);
+      this.worker.onmessage = (e: MessageEvent<EncodeResponse>) => {
+        const resolve = this.pending.get(e.data.id);
+        if (!resolve) return;
+        this.pending.delete(e.data.id);
+        if (e.data.error) console.warn('Frame encoding failed:', e.data.error);
+        resolve(e.data.data ? { mimeType: e.data.mimeType || 'image/jpeg', data: e.data.data } : null);
+      };
+    } catch (e) {
+      console.warn('Frame encoder worker unavailable, encoding on the main thread:', e);
+      this.worker = null;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  get isBusy(): boolean {
+    return this.busy;
+  }
+
+  /** Crops `region` out of `source`, scales it to width x height and encodes it. Resolves null on failure. */
+  async encode(
+    source: HTMLVideoElement | HTMLCanvasElement,
+    region: PixelRect,
+    width: number,
+    height: number,
+    settings: FrameEncoderSettings
+  ): Promise<EncodedFrame | null> {
+    const mimeType = `image/${settings.format}`;
+    const quality = Math.min(1, Math.max(0.1, settings.quality));
+    this.busy = true;
+    try {
+      if (!this.worker) return this.encodeOnMainThread(source, region, width, height, mimeType, quality);
+
+      const bitmap = await createImageBitmap(source, region.sx, region.sy, region.sw, region.sh, {
+        resizeWidth: width,
+        resizeHeight: height,
+        resizeQuality: 'medium',
+      });
+      const worker = this.worker;
+      if (!worker) {
+        bitmap.close();
+        return null;
+      }
+      const id = this.nextId++;
+      return await new Promise<EncodedFrame | null>(resolve => {
+        this.pending.set(id, resolve);
+        worker.postMessage({ id, bitmap, mimeType, quality }, [bitmap]);
+      });
+    } catch (e) {
+      console.warn('Frame grab failed:', e);
+      return null;
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  dispose() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.forEach(resolve => resolve(null));
+    this.pending.clear();
+    this.fallbackCanvas = null;
+  }
+
+  private encodeOnMainThread(
+    source: HTMLVideoElement | HTMLCanvasElement,
+    region: PixelRect,
+    width: number,
+    height: number,
+    mimeType: string,
+    quality: number
+  ): EncodedFrame | null {
+    if (!this.fallbackCanvas) this.fallbackCanvas = document.createElement('canvas');
+    const canvas = this.fallbackCanvas;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    canvas.width = width;
+    canvas.height = height;
+    ctx.drawImage(source, region.sx, region.sy, region.sw, region.sh, 0, 0, width, height);
+    const dataUrl = canvas.toDataURL(mimeType, quality);
+    const comma = dataUrl.indexOf(',');
+    return {
+      mimeType: dataUrl.slice(5, dataUrl.indexOf(';')),
+      data: dataUrl.slice(comma + 1),
+    };
+  }
+}
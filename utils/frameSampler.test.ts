@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FrameSampler, FrameSamplerSettings } from './frameSampler';
+
+// Frames are flat grey images; the fake 2D context "draws" one by remembering its level
+interface FakeFrame {
+  level: number;
+}
+
+const frame = (level: number) => ({ level }) as FakeFrame as unknown as CanvasImageSource;
+
+const fakeContext = () => ({
+  level: 0,
+  drawImage(source: FakeFrame) {
+    this.level = source.level;
+  },
+  getImageData(_x: number, _y: number, width: number, height: number) {
+    return { data: new Uint8ClampedArray(width * height * 4).fill(this.level) };
+  },
+});
+
+const SETTINGS: FrameSamplerSettings = { fps: 5, maxIdleMs: 5000, diffThreshold: 0.03, allowBurst: false };
+
+describe('FrameSampler', () => {
+  let sampler: FrameSampler;
+
+  beforeEach(() => {
+    vi.stubGlobal('document', {
+      createElement: () => ({ getContext: fakeContext }),
+    });
+    sampler = new FrameSampler(SETTINGS);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('counts a frame as sent only once it is marked sent', () => {
+    expect(sampler.shouldSend(frame(0), null, 1000)).toBe(true);
+    expect(sampler.getStats().sent).toBe(0);
+    sampler.markSent();
+    expect(sampler.getStats().sent).toBe(1);
+  });
+
+  it('skips near-identical frames', () => {
+    sampler.shouldSend(frame(0), null, 1000);
+    sampler.markSent();
+    expect(sampler.shouldSend(frame(1), null, 2000)).toBe(false);
+    expect(sampler.getStats()).toMatchObject({ sent: 1, skipped: 1 });
+  });
+
+  it('keeps comparing against the last frame that actually went out', () => {
+    sampler.shouldSend(frame(0), null, 1000);
+    sampler.markSent();
+    // Picked, but dropped before reaching the session
+    expect(sampler.shouldSend(frame(200), null, 2000)).toBe(true);
+    // Still a change from what the model last saw, so it is picked again
+    expect(sampler.shouldSend(frame(200), null, 3000)).toBe(true);
+    sampler.markSent();
+    expect(sampler.shouldSend(frame(200), null, 4000)).toBe(false);
+    expect(sampler.getStats().sent).toBe(2);
+  });
+
+  it('sends an unchanged frame once the idle limit passes', () => {
+    sampler.shouldSend(frame(0), null, 1000);
+    sampler.markSent();
+    expect(sampler.shouldSend(frame(0), null, 6000)).toBe(true);
+  });
+
+  it('ignores markSent without a picked frame', () => {
+    sampler.markSent();
+    expect(sampler.getStats().sent).toBe(0);
+  });
+});
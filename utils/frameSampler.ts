@@ -0,0 +1,147 @@
+import { PixelRect } from './regionOfInterest';
+
+export const DEFAULT_VIDEO_FPS = 5;
+export const DEFAULT_VIDEO_MAX_IDLE_MS = 5000;
+// Mean absolute luma difference (0-1) against the last sent frame
+export const DEFAULT_VIDEO_DIFF_THRESHOLD = 0.03;
+
+// A change this many times over the threshold is a scene cut: sample faster for a moment
+const BURST_DIFF_FACTOR = 4;
+const BURST_FPS = 10;
+const BURST_DURATION_MS = 1500;
+
+// Frames are compared at this size; small enough to be cheap, large enough to see a cursor move
+const ANALYSIS_WIDTH = 64;
+const ANALYSIS_HEIGHT = 36;
+
+export interface FrameSamplerSettings {
+  fps: number; // Max rate while the scene keeps changing
+  maxIdleMs: number; // Send a frame at least this often, even if nothing changed
+  diffThreshold: number;
+  allowBurst: boolean;
+}
+
+export interface FrameSamplerStats {
+  sent: number;
+  skipped: number; // Frames that were due but near-identical to the last one sent
+  lastDiff: number;
+  isBursting: boolean;
+}
+
+/**
+ * Decides which video frames are worth sending.
+ *
+ * Each tick the current frame is shrunk to a small luma image and compared with the last
+ * frame that was sent. Near-identical frames are skipped (a static document costs one frame
+ * per `maxIdleMs`), ordinary changes go out at `fps`, and a big change (scene cut, jump scare)
+ * bursts to BURST_FPS for a moment so fast action isn't missed.
+ */
+export class FrameSampler {
+  private settings: FrameSamplerSettings;
+  private analysisCanvas: HTMLCanvasElement;
+  private analysisCtx: CanvasRenderingContext2D | null;
+  private lastSentLuma: Uint8Array | null = null;
+  private lastSentAt = 0;
+  // Picked by shouldSend, becomes the reference once markSent confirms it went out
+  private pending: { luma: Uint8Array | null; at: number } | null = null;
+  private burstUntil = 0;
+  private stats: FrameSamplerStats = { sent: 0, skipped: 0, lastDiff: 0, isBursting: false };
+
+  constructor(settings: FrameSamplerSettings) {
+    this.settings = settings;
+    this.analysisCanvas = document.createElement('canvas');
+    this.analysisCanvas.width = ANALYSIS_WIDTH;
+    this.analysisCanvas.height = ANALYSIS_HEIGHT;
+    this.analysisCtx = this.analysisCanvas.getContext('2d', { willReadFrequently: true });
+  }
+
+  // Ticking faster than this is wasted work
+  get tickIntervalMs(): number {
+    return 1000 / this.burstFps();
+  }
+
+  getStats(): FrameSamplerStats {
+    return { ...this.stats };
+  }
+
+  resetStats() {
+    this.stats = { sent: 0, skipped: 0, lastDiff: 0, isBursting: false };
+  }
+
+  updateSettings(settings: FrameSamplerSettings) {
+    this.settings = settings;
+  }
+
+  // Forget the reference frame (e.g. after switching sources) so the next frame is sent
+  resetReference() {
+    this.lastSentLuma = null;
+    this.burstUntil = 0;
+    this.pending = null;
+  }
+
+  /**
+   * Call on every tick; returns true when this frame should be sent. Only `region` is compared when given.
+   * Call `markSent` once the frame has actually been handed to the session.
+   */
+  shouldSend(source: CanvasImageSource, region: PixelRect | null = null, now: number = performance.now()): boolean {
+    const bursting = now < this.burstUntil;
+    this.stats.isBursting = bursting;
+    // Half a tick of slack so timer jitter doesn't push every frame to the following tick
+    const minIntervalMs = 1000 / (bursting ? this.burstFps() : this.settings.fps) - this.tickIntervalMs / 2;
+    if (now - this.lastSentAt < minIntervalMs) return false;
+
+    const luma = this.computeLuma(source, region);
+    // No way to analyse (no 2D context): behave like plain fixed-rate sampling
+    const diff = luma && this.lastSentLuma ? meanAbsDiff(luma, this.lastSentLuma) : 1;
+    this.stats.lastDiff = diff;
+    const changed = diff >= this.settings.diffThreshold;
+    const idleTooLong = now - this.lastSentAt >= this.settings.maxIdleMs;
+
+    if (!changed && !idleTooLong) {
+      this.stats.skipped++;
+      return false;
+    }
+
+    if (this.lastSentLuma && this.settings.allowBurst && diff >= this.settings.diffThreshold * BURST_DIFF_FACTOR) {
+      this.burstUntil = now + BURST_DURATION_MS;
+    }
+    this.pending = { luma, at: now };
+    return true;
+  }
+
+  // The frame picked by the last shouldSend went out (it wasn't dropped or failed to encode)
+  markSent() {
+    if (!this.pending) return;
+    this.lastSentLuma = this.pending.luma;
+    this.lastSentAt = this.pending.at;
+    this.pending = null;
+    this.stats.sent++;
+  }
+
+  private burstFps(): number {
+    return this.settings.allowBurst ? Math.max(this.settings.fps, BURST_FPS) : this.settings.fps;
+  }
+
+  private computeLuma(source: CanvasImageSource, region: PixelRect | null): Uint8Array | null {
+    const ctx = this.analysisCtx;
+    if (!ctx) return null;
+    if (region) {
+      ctx.drawImage(source, region.sx, region.sy, region.sw, region.sh, 0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+    } else {
+      ctx.drawImage(source, 0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+    }
+    const { data } = ctx.getImageData(0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+    const luma = new Uint8Array(ANALYSIS_WIDTH * ANALYSIS_HEIGHT);
+    for (let i = 0; i < luma.length; i++) {
+      // Rec. 601 weights
+      luma[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+    }
+    return luma;
+  }
+}
+
+function meanAbsDiff(a: Uint8Array, b: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length / 255;
+}
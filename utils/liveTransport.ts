@@ -0,0 +1,61 @@
+import {
+  GoogleGenAI,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+import { StreamConfig } from '../types';
+import { MockLiveTransport, DEFAULT_MOCK_SERVER_URL } from './mockLiveTransport';
+
+/**
+ * The subset of the SDK's live `Session` that the agent actually uses.
+ * The Gemini SDK session satisfies this structurally, so mocks only need to implement these four methods.
+ */
+export interface LiveTransportSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+/**
+ * Opens live sessions. Implementations must drive `params.callbacks` the same way
+ * `GoogleGenAI.live.connect` does: onopen once the socket is up, onmessage per
+ * `LiveServerMessage`, onclose exactly once when the session ends.
+ */
+export interface LiveTransport {
+  readonly name: string;
+  // Whether connecting needs process.env.API_KEY
+  readonly requiresApiKey: boolean;
+  // False for sources that end on purpose (e.g. replays), so a close never triggers a reconnect
+  readonly canReconnect: boolean;
+  connect(params: LiveConnectParameters): Promise<LiveTransportSession>;
+}
+
+// Default transport: the real Gemini Live API via the SDK
+export class GeminiLiveTransport implements LiveTransport {
+  readonly name = 'Gemini Live';
+  readonly requiresApiKey = true;
+  readonly canReconnect = true;
+  private apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  connect(params: LiveConnectParameters): Promise<LiveTransportSession> {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey });
+    return ai.live.connect(params);
+  }
+}
+
+export function createLiveTransport(config: StreamConfig): LiveTransport {
+  switch (config.transport) {
+    case 'mock':
+      return new MockLiveTransport(config.mockServerUrl || DEFAULT_MOCK_SERVER_URL);
+    case 'gemini':
+    default:
+      return new GeminiLiveTransport(process.env.API_KEY || '');
+  }
+}
@@ -0,0 +1,48 @@
+import { MixerSettings, StreamConfig } from '../types';
+
+export const DEFAULT_MIXER_SETTINGS: MixerSettings = {
+  micGain: 1,
+  // 50% by default so the mic stays dominant and video audio isn't mis-transcribed as the user
+  screenMixLevel: 0.5,
+  duckDepth: 0.1,
+  attackMs: 600,
+  holdMs: 600,
+  releaseMs: 600,
+  sidechain: false,
+  sidechainThreshold: 0.02,
+};
+
+export interface MixerPreset {
+  id: string;
+  name: string;
+  description: string;
+  settings: Partial<MixerSettings>;
+}
+
+export const MIXER_PRESETS: MixerPreset[] = [
+  {
+    id: 'default',
+    name: 'Balanced',
+    description: 'Screen at half level, strong ducking while the AI talks.',
+    settings: DEFAULT_MIXER_SETTINGS,
+  },
+  {
+    id: 'music',
+    name: 'Music',
+    description: 'Gentle ducking with a slow release so songs keep flowing.',
+    settings: { screenMixLevel: 0.6, duckDepth: 0.5, attackMs: 300, holdMs: 400, releaseMs: 1500, sidechain: true },
+  },
+  {
+    id: 'game',
+    name: 'Game',
+    description: 'Hard, fast ducking so the AI cuts through explosions.',
+    settings: { screenMixLevel: 0.5, duckDepth: 0.02, attackMs: 30, holdMs: 300, releaseMs: 400, sidechain: true },
+  },
+];
+
+export function resolveMixer(config: StreamConfig): MixerSettings {
+  return { ...DEFAULT_MIXER_SETTINGS, ...config.mixer };
+}
+
+// setTargetAtTime reaches ~95% of the target after three time constants
+export const envelopeTimeConstant = (ms: number) => Math.max(0.001, ms / 1000 / 3);
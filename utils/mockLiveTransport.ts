@@ -0,0 +1,99 @@
+import {
+  LiveConnectConfig,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import type { LiveTransport, LiveTransportSession } from './liveTransport';
+
+export const DEFAULT_MOCK_SERVER_URL = 'ws://localhost:8765';
+
+/**
+ * Wire format spoken with the local mock server (`npm run mock:live`).
+ * Client -> server is one of these envelopes; server -> client is a plain `LiveServerMessage` JSON object.
+ */
+export type MockClientMessage =
+  | { setup: { model: string; config?: LiveConnectConfig } }
+  | { realtimeInput: LiveSendRealtimeInputParameters }
+  | { clientContent: LiveSendClientContentParameters }
+  | { toolResponse: LiveSendToolResponseParameters };
+
+class MockLiveSession implements LiveTransportSession {
+  private ws: WebSocket;
+
+  constructor(ws: WebSocket) {
+    this.ws = ws;
+  }
+
+  private post(message: MockClientMessage) {
+    if (this.ws.readyState !== WebSocket.OPEN) return;
+    this.ws.send(JSON.stringify(message));
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    this.post({ realtimeInput: params });
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    this.post({ clientContent: params });
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    this.post({ toolResponse: params });
+  }
+
+  close() {
+    this.ws.close();
+  }
+}
+
+// Talks to the scripted stand-in server instead of Gemini, so the whole pipeline runs offline
+export class MockLiveTransport implements LiveTransport {
+  readonly name = 'Mock Live Server';
+  readonly requiresApiKey = false;
+  readonly canReconnect = true;
+  private url: string;
+
+  constructor(url: string = DEFAULT_MOCK_SERVER_URL) {
+    this.url = url;
+  }
+
+  connect(params: LiveConnectParameters): Promise<LiveTransportSession> {
+    return new Promise((resolve, reject) => {
+      const { callbacks } = params;
+      const ws = new WebSocket(this.url);
+      const session = new MockLiveSession(ws);
+      let opened = false;
+
+      ws.onopen = () => {
+        opened = true;
+        // Strip non-serializable request options before handing the config to the server
+        const { abortSignal, httpOptions, ...config } = params.config || {};
+        ws.send(JSON.stringify({ setup: { model: params.model, config } } satisfies MockClientMessage));
+        callbacks.onopen?.();
+        resolve(session);
+      };
+
+      ws.onmessage = (event) => {
+        if (typeof event.data !== 'string') return;
+        try {
+          callbacks.onmessage(JSON.parse(event.data) as LiveServerMessage);
+        } catch (e) {
+          console.error("Mock Live: bad message", e);
+        }
+      };
+
+      ws.onerror = () => {
+        const err = new ErrorEvent('error', { message: `Mock Live server unreachable at ${this.url}` });
+        callbacks.onerror?.(err);
+        if (!opened) reject(new Error(err.message));
+      };
+
+      ws.onclose = (event) => {
+        callbacks.onclose?.(event);
+      };
+    });
+  }
+}
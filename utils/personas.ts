@@ -1,8 +1,12 @@
+import type { EmotionDelivery, Sentiment } from './emotionDelivery';
+
 export interface Persona {
   id: string;
   name: string;
   description: string;
   instruction: string;
+  // How each sentiment is voiced, over DEFAULT_EMOTION_MAP (users can edit it further in Settings)
+  emotionMap?: Partial<Record<Sentiment, Partial<EmotionDelivery>>>;
 }
 
 const AUDIO_CONTEXT_NOTE = `
@@ -35,15 +39,15 @@ If the visual content is fast-paced (e.g., a montage, a fight scene, a chaotic g
 
 const SENTIMENT_TAGGING = `
 SENTIMENT LOGGING (CRITICAL):
-We are analyzing your emotional intelligence. You MUST classify the sentiment of your OWN reaction at the end of every turn.
-Append one of the following tags to the very end of your text response:
+We are analyzing your emotional intelligence. You MUST classify the sentiment of your OWN reaction in every turn.
+Start your text response with one of the following tags, before anything else, so your voice can match it:
 [S:POSITIVE] - Happy, approving, laughing, excited.
 [S:NEGATIVE] - Disgusted, angry, annoyed, sad, cringed.
 [S:SURPRISED] - Shocked, startled, confused, amazed.
 [S:NEUTRAL] - Factual, calm, observing.
 [S:EXCITED] - Hype, loud, high energy.
 
-Example Output: "That was absolutely insane! I can't believe he made that jump. [S:EXCITED]"
+Example Output: "[S:EXCITED] That was absolutely insane! I can't believe he made that jump."
 Note: Try not to pronounce the tag if possible, but it must be in the text transcript.
 `;
 
@@ -79,7 +83,11 @@ CRITICAL RULES:
 3. BE OPINIONATED: Take sides. Mock bad acting. Laugh at jokes.
 4. USE SLANG: "wild", "cringe", "bet", "no shot", "cooked", "cap", "deadass".
 5. SHORT & PUNCHY: Speak in short bursts. 1-2 sentences max.
-6. PROACTIVE: Do not wait for the user. If something funny/crazy happens, laugh or yell immediately.`
+6. PROACTIVE: Do not wait for the user. If something funny/crazy happens, laugh or yell immediately.`,
+    emotionMap: {
+      excited: { speed: 0.8, playbackRate: 1.12, gain: 1.3 },
+      surprised: { speed: 0.5, emotions: ['surprise:highest'], playbackRate: 1.08 },
+    }
   },
   {
     id: 'critic',
@@ -96,7 +104,11 @@ RULES:
 2. CONTEXT: Identify genres, directors, or potential influences.
 3. NARRATIVE: Analyze plot structure, pacing, character arcs, and thematic depth.
 4. TONE: Be knowledgeable, passionate, and slightly academic but accessible.
-5. VISUALS: If you see a beautiful shot, react with appreciation ("Look at that composition...").`
+5. VISUALS: If you see a beautiful shot, react with appreciation ("Look at that composition...").`,
+    emotionMap: {
+      excited: { speed: 0.3, emotions: ['positivity:high', 'curiosity'], playbackRate: 1.05, gain: 1.1 },
+      negative: { speed: -0.4, emotions: ['sadness'], playbackRate: 0.95 },
+    }
   },
   {
     id: 'analyst',
@@ -111,7 +123,15 @@ RULES:
 1. Be concise, objective, and detailed.
 2. Focus on data, text, and factual accuracy.
 3. Do not use slang.
-4. Only react if there is a significant change in the data or state displayed.`
+4. Only react if there is a significant change in the data or state displayed.
+5. If text, code or numbers are too small to read, call capture_screen_detail (optionally with a region) instead of guessing.`,
+    // Keep it measured: barely any colouring
+    emotionMap: {
+      positive: { speed: 0, emotions: ['positivity:low'], playbackRate: 1, gain: 1 },
+      excited: { speed: 0.2, emotions: ['positivity'], playbackRate: 1.03, gain: 1.05 },
+      surprised: { speed: 0.1, emotions: ['curiosity'], playbackRate: 1.02, gain: 1 },
+      negative: { speed: 0, emotions: [], playbackRate: 1, gain: 1 },
+    }
   },
   {
     id: 'gamer',
@@ -128,7 +148,13 @@ RULES:
 1. Use gaming terminology (GG, NPC, lag, clutch, tanking, griefing).
 2. Be enthusiastic and loud when appropriate.
 3. React instantly to action on screen. If the player takes damage, say "Ouch!" or "He's one shot!".
-4. Trash talk the enemies (playfully).`
+4. Trash talk the enemies (playfully).`,
+    emotionMap: {
+      positive: { speed: 0.3, emotions: ['positivity:highest'], playbackRate: 1.06, gain: 1.15 },
+      excited: { speed: 1, emotions: ['positivity:highest', 'surprise:high'], playbackRate: 1.18, gain: 1.4 },
+      surprised: { speed: 0.6, emotions: ['surprise:highest'], playbackRate: 1.1, gain: 1.25 },
+      negative: { speed: 0.2, emotions: ['anger:high'], playbackRate: 1, gain: 1.15 },
+    }
   }
 ];
 
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PlaybackQueue } from './playbackQueue';
+
+const SAMPLE_RATE = 1000; // 1 sample = 1ms keeps the arithmetic readable
+
+// Just enough of the Web Audio graph for the queue: a hand-driven clock and sources that
+// report when they have played out
+class FakeParam {
+  value = 1;
+  curves: { values: Float32Array; start: number; duration: number }[] = [];
+  setValueAtTime() {}
+  linearRampToValueAtTime() {}
+  cancelScheduledValues() {}
+  setValueCurveAtTime(values: Float32Array, start: number, duration: number) {
+    this.curves.push({ values, start, duration });
+  }
+}
+
+class FakeSource {
+  buffer: { duration: number } | null = null;
+  onended: (() => void) | null = null;
+  startTime = 0;
+  connect() {}
+  disconnect() {}
+  start(when: number) { this.startTime = when; }
+  stop() {}
+}
+
+class FakeContext {
+  currentTime = 0;
+  sampleRate = SAMPLE_RATE;
+  sources: FakeSource[] = [];
+  gains: FakeParam[] = [];
+
+  createBuffer(_channels: number, length: number, sampleRate: number) {
+    return { duration: length / sampleRate, copyToChannel() {} };
+  }
+
+  createBufferSource() {
+    const source = new FakeSource();
+    this.sources.push(source);
+    return source;
+  }
+
+  createGain() {
+    const gain = new FakeParam();
+    this.gains.push(gain);
+    return { gain, connect() {}, disconnect() {} };
+  }
+
+  // Moves the clock and ends whatever has finished playing by then
+  advance(seconds: number) {
+    this.currentTime += seconds;
+    this.sources
+      .filter(source => source.onended && source.startTime + source.buffer!.duration <= this.currentTime)
+      .forEach(source => {
+        const ended = source.onended!;
+        source.onended = null;
+        ended();
+      });
+  }
+}
+
+const chunk = (ms: number) => new Float32Array(ms * SAMPLE_RATE / 1000);
+
+describe('PlaybackQueue', () => {
+  let ctx: FakeContext;
+  let queue: PlaybackQueue;
+
+  beforeEach(() => {
+    ctx = new FakeContext();
+    queue = new PlaybackQueue(ctx as unknown as AudioContext, {} as AudioNode);
+  });
+
+  it('banks the target depth before a fresh utterance starts', () => {
+    const start = queue.enqueue(chunk(100));
+    expect(start).toBeCloseTo(0.06);
+    expect(queue.getStats()).toMatchObject({ chunks: 1, bufferedMs: 160, targetMs: 60, totalQueuedMs: 100 });
+  });
+
+  it('schedules following chunks back to back, overlapping by the crossfade', () => {
+    queue.enqueue(chunk(100));
+    const second = queue.enqueue(chunk(50));
+    expect(second).toBeCloseTo(0.158);
+    expect(queue.endTime).toBeCloseTo(0.208);
+    expect(queue.activeCount).toBe(2);
+  });
+
+  it('crossfades back-to-back chunks at constant power', () => {
+    queue.enqueue(chunk(100));
+    queue.enqueue(chunk(100));
+    const fadeOut = ctx.gains[0].curves.at(-1)!;
+    const fadeIn = ctx.gains[1].curves[0];
+    expect(fadeIn.start).toBeCloseTo(fadeOut.start);
+    expect(fadeIn.duration).toBeCloseTo(fadeOut.duration);
+    fadeIn.values.forEach((level, i) => expect(level ** 2 + fadeOut.values[i] ** 2).toBeCloseTo(1));
+  });
+
+  it('counts a chunk arriving with less than the target buffered as late', () => {
+    queue.enqueue(chunk(100));
+    ctx.advance(0.13); // 30ms left ahead of the playhead
+    queue.enqueue(chunk(100));
+    expect(queue.getStats()).toMatchObject({ lateChunks: 1, underruns: 0 });
+  });
+
+  it('grows the target after running dry mid-turn', () => {
+    queue.enqueue(chunk(100));
+    ctx.advance(0.3); // Played out, then 140ms of silence
+    queue.enqueue(chunk(100));
+    const stats = queue.getStats();
+    expect(stats.underruns).toBe(1);
+    expect(stats.targetMs).toBe(100);
+  });
+
+  it('counts a gap of any length before the turn ends', () => {
+    queue.enqueue(chunk(100));
+    ctx.advance(2);
+    queue.enqueue(chunk(100));
+    expect(queue.getStats().underruns).toBe(1);
+  });
+
+  it('does not count the pause after a turn ends as an underrun', () => {
+    queue.enqueue(chunk(100));
+    queue.endTurn();
+    ctx.advance(0.3);
+    queue.enqueue(chunk(100));
+    expect(queue.getStats()).toMatchObject({ underruns: 0, targetMs: 60 });
+  });
+
+  it('forgets chunks once they have played', () => {
+    queue.enqueue(chunk(100));
+    queue.enqueue(chunk(100));
+    ctx.advance(0.2);
+    expect(queue.activeCount).toBe(1);
+    ctx.advance(0.1);
+    expect(queue.activeCount).toBe(0);
+  });
+
+  it('empties on flush without counting the silence as an underrun', () => {
+    queue.enqueue(chunk(100));
+    queue.flush();
+    expect(queue.activeCount).toBe(0);
+    expect(queue.getStats().bufferedMs).toBe(0);
+    ctx.advance(0.1);
+    queue.enqueue(chunk(100));
+    expect(queue.getStats().underruns).toBe(0);
+  });
+
+  it('resets its counters and target', () => {
+    queue.enqueue(chunk(100));
+    ctx.advance(0.3);
+    queue.enqueue(chunk(100));
+    queue.resetStats();
+    expect(queue.getStats()).toMatchObject({ chunks: 0, underruns: 0, lateChunks: 0, totalQueuedMs: 0, targetMs: 60 });
+  });
+});
@@ -0,0 +1,177 @@
+// Adaptive target depth: how far ahead of "now" a fresh utterance is scheduled
+const MIN_TARGET_MS = 60;
+const MAX_TARGET_MS = 400;
+const UNDERRUN_TARGET_STEP_MS = 40;
+// Shrink the target back by this much per second of uninterrupted playback
+const TARGET_DECAY_MS_PER_SECOND = 10;
+// Fade in after silence and fade out on flush
+const FADE_MS = 5;
+// Back-to-back chunks overlap by this much with equal-power curves; also the tail fade when nothing follows
+const CROSSFADE_MS = 2;
+const CURVE_POINTS = 32;
+const FADE_IN_CURVE = Float32Array.from({ length: CURVE_POINTS }, (_, i) => Math.sin(i / (CURVE_POINTS - 1) * Math.PI / 2));
+const FADE_OUT_CURVE = Float32Array.from({ length: CURVE_POINTS }, (_, i) => Math.cos(i / (CURVE_POINTS - 1) * Math.PI / 2));
+
+export interface PlaybackStats {
+  chunks: number;
+  underruns: number; // Queue ran dry mid-turn (audible gap)
+  lateChunks: number; // Arrived with less buffered than the target depth
+  bufferedMs: number; // Audio currently scheduled ahead of the playhead
+  targetMs: number; // Current adaptive target depth
+  totalQueuedMs: number; // All audio queued since the last reset
+}
+
+interface ScheduledChunk {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  start: number;
+  end: number;
+}
+
+/**
+ * Jitter buffer for streamed AI speech (Gemini PCM and TTS audio alike).
+ *
+ * Chunks are scheduled back-to-back on the context clock. A fresh utterance starts
+ * `targetMs` in the future so a little audio is banked before playback begins; every
+ * underrun grows that target and smooth playback slowly shrinks it again.
+ * Each chunk plays through its own gain: consecutive chunks crossfade over a short
+ * overlap, the tail fades out if nothing follows and the head fades in after a gap,
+ * so no joint clicks. Only a gap inside a turn counts as an underrun; call `endTurn()`
+ * once the turn's audio is complete so the pause before the next one doesn't.
+ */
+export class PlaybackQueue {
+  private ctx: AudioContext;
+  private destination: AudioNode;
+  private onActivityChange: () => void;
+  private scheduled: ScheduledChunk[] = [];
+  private nextStartTime = 0;
+  private inTurn = false;
+  private targetMs = MIN_TARGET_MS;
+  private lastDecayTime = 0;
+  private stats = { chunks: 0, underruns: 0, lateChunks: 0, totalQueuedMs: 0 };
+
+  // onActivityChange fires whenever a chunk starts being queued or finishes playing
+  constructor(ctx: AudioContext, destination: AudioNode, onActivityChange: () => void = () => {}) {
+    this.ctx = ctx;
+    this.destination = destination;
+    this.onActivityChange = onActivityChange;
+  }
+
+  get activeCount(): number {
+    return this.scheduled.length;
+  }
+
+  // Earliest context time at which the queued audio will have finished
+  get endTime(): number {
+    return Math.max(this.nextStartTime, this.ctx.currentTime);
+  }
+
+  getStats(): PlaybackStats {
+    return {
+      ...this.stats,
+      bufferedMs: Math.max(0, (this.nextStartTime - this.ctx.currentTime) * 1000),
+      targetMs: this.targetMs,
+    };
+  }
+
+  resetStats() {
+    this.stats = { chunks: 0, underruns: 0, lateChunks: 0, totalQueuedMs: 0 };
+    this.targetMs = MIN_TARGET_MS;
+  }
+
+  /** Queues mono samples at the context's sample rate. Returns the scheduled start time. */
+  enqueue(samples: Float32Array): number {
+    const ctx = this.ctx;
+    const now = ctx.currentTime;
+    const buffer = ctx.createBuffer(1, samples.length, ctx.sampleRate);
+    buffer.copyToChannel(samples, 0);
+
+    this.decayTarget(now);
+
+    const bufferedMs = (this.nextStartTime - now) * 1000;
+    const contiguous = bufferedMs > 0;
+    let start: number;
+
+    if (contiguous) {
+      // Overlap the previous chunk's tail fade so the two crossfade
+      start = Math.max(now, this.nextStartTime - CROSSFADE_MS / 1000);
+      if (bufferedMs < this.targetMs) this.stats.lateChunks++;
+    } else {
+      if (this.inTurn) {
+        // Ran dry before the turn's audio was complete: that gap was audible, so bank more next time
+        this.stats.underruns++;
+        this.targetMs = Math.min(MAX_TARGET_MS, this.targetMs + UNDERRUN_TARGET_STEP_MS);
+      }
+      start = now + this.targetMs / 1000;
+    }
+    this.inTurn = true;
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    const gain = ctx.createGain();
+    source.connect(gain);
+    gain.connect(this.destination);
+
+    const end = start + buffer.duration;
+    // Curves may not overlap each other on one param, so very short chunks get shorter fades
+    const crossfade = Math.min(CROSSFADE_MS / 1000, buffer.duration / 4);
+    if (contiguous) {
+      gain.gain.setValueCurveAtTime(FADE_IN_CURVE, start, crossfade);
+    } else {
+      const fade = Math.min(FADE_MS / 1000, buffer.duration / 4);
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(1, start + fade);
+    }
+    // The next chunk fades in over this if it lines up behind; otherwise it's the fade to silence
+    gain.gain.setValueCurveAtTime(FADE_OUT_CURVE, end - crossfade, crossfade);
+
+    const chunk: ScheduledChunk = { source, gain, start, end };
+    source.onended = () => {
+      source.disconnect();
+      gain.disconnect();
+      const index = this.scheduled.indexOf(chunk);
+      if (index !== -1) this.scheduled.splice(index, 1);
+      this.onActivityChange();
+    };
+
+    source.start(start);
+    this.scheduled.push(chunk);
+    this.nextStartTime = end;
+    this.stats.chunks++;
+    this.stats.totalQueuedMs += buffer.duration * 1000;
+    this.onActivityChange();
+    return start;
+  }
+
+  /** Marks the current turn's audio as complete: running dry from here on is expected. */
+  endTurn() {
+    this.inTurn = false;
+  }
+
+  /** Stops everything with a short fade (barge-in). */
+  flush() {
+    const now = this.ctx.currentTime;
+    const fade = FADE_MS / 1000;
+    this.scheduled.forEach(({ source, gain }) => {
+      try {
+        gain.gain.cancelScheduledValues(now);
+        gain.gain.setValueAtTime(gain.gain.value, now);
+        gain.gain.linearRampToValueAtTime(0, now + fade);
+        source.stop(now + fade);
+      } catch (e) {}
+    });
+    this.scheduled = [];
+    this.nextStartTime = now;
+    // A flush is deliberate silence, not an underrun (whenever the next chunk arrives)
+    this.inTurn = false;
+    this.onActivityChange();
+  }
+
+  private decayTarget(now: number) {
+    if (this.lastDecayTime > 0 && this.nextStartTime > now) {
+      const elapsed = now - this.lastDecayTime;
+      this.targetMs = Math.max(MIN_TARGET_MS, this.targetMs - elapsed * TARGET_DECAY_MS_PER_SECOND);
+    }
+    this.lastDecayTime = now;
+  }
+}
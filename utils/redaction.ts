@@ -0,0 +1,96 @@
+import { PixelRect, RegionOfInterest, clampRegionOfInterest, roiToPixels } from './regionOfInterest';
+import { Placement } from './frameCompositor';
+
+export type RedactionStyle = 'blur' | 'fill';
+
+/** Privacy mask in normalized (0-1) coordinates of the main video frame. */
+export interface RedactionMask extends RegionOfInterest {
+  id: string;
+  style: RedactionStyle;
+}
+
+const STORAGE_KEY = 'omni.redactionMasks';
+// Blur works by shrinking the masked area to this many pixels across and scaling it back up;
+// coarse enough that text can't be recovered
+const BLUR_SAMPLE_WIDTH = 12;
+const FILL_COLOR = '#000';
+
+export function loadRedactionMasks(): RedactionMask[] {
+  try {
+    const masks = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(masks) ? masks : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+export function saveRedactionMasks(masks: RedactionMask[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(masks));
+  } catch (e) {
+    console.warn('Could not persist redaction masks:', e);
+  }
+}
+
+export function createRedactionMask(region: RegionOfInterest, style: RedactionStyle): RedactionMask {
+  return {
+    ...clampRegionOfInterest(region),
+    id: `mask-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    style,
+  };
+}
+
+let scratchCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Paints the masks over a frame already drawn into `ctx`. `source` is the part of the video
+ * (in video pixels) that was drawn, and `dest` where it landed on the canvas, so masks follow
+ * crops, scaling and composite layouts. Must run before the canvas is encoded.
+ */
+export function applyRedactionMasks(
+  ctx: CanvasRenderingContext2D,
+  masks: RedactionMask[],
+  videoWidth: number,
+  videoHeight: number,
+  source: PixelRect,
+  dest: Placement
+) {
+  if (masks.length === 0) return;
+  const scaleX = dest.width / source.sw;
+  const scaleY = dest.height / source.sh;
+
+  for (const mask of masks) {
+    const px = roiToPixels(mask, videoWidth, videoHeight);
+    // Intersect with the drawn part of the frame
+    const left = Math.max(px.sx, source.sx);
+    const top = Math.max(px.sy, source.sy);
+    const right = Math.min(px.sx + px.sw, source.sx + source.sw);
+    const bottom = Math.min(px.sy + px.sh, source.sy + source.sh);
+    if (right <= left || bottom <= top) continue;
+
+    // Round outwards so no sliver of the masked area survives
+    const x = Math.floor(dest.x + (left - source.sx) * scaleX);
+    const y = Math.floor(dest.y + (top - source.sy) * scaleY);
+    const w = Math.ceil(dest.x + (right - source.sx) * scaleX) - x;
+    const h = Math.ceil(dest.y + (bottom - source.sy) * scaleY) - y;
+
+    if (mask.style === 'blur' && blurRect(ctx, x, y, w, h)) continue;
+    ctx.fillStyle = FILL_COLOR;
+    ctx.fillRect(x, y, w, h);
+  }
+}
+
+// Downscale-then-upscale; returns false when it can't (the caller fills instead)
+function blurRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number): boolean {
+  if (!scratchCanvas) scratchCanvas = document.createElement('canvas');
+  const scratch = scratchCanvas.getContext('2d');
+  if (!scratch) return false;
+  scratchCanvas.width = Math.min(w, BLUR_SAMPLE_WIDTH);
+  scratchCanvas.height = Math.max(1, Math.round(scratchCanvas.width * h / w));
+  scratch.drawImage(ctx.canvas, x, y, w, h, 0, 0, scratchCanvas.width, scratchCanvas.height);
+  const smoothing = ctx.imageSmoothingEnabled;
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(scratchCanvas, 0, 0, scratchCanvas.width, scratchCanvas.height, x, y, w, h);
+  ctx.imageSmoothingEnabled = smoothing;
+  return true;
+}
@@ -0,0 +1,66 @@
+/** Crop rectangle in normalized (0-1) video frame coordinates. */
+export interface RegionOfInterest {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PixelRect {
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+}
+
+const STORAGE_KEY = 'omni.regionsOfInterest';
+// Anything smaller is almost certainly a stray click
+export const MIN_ROI_SIZE = 0.02;
+
+// Remembered per display surface type ('monitor', 'window', 'browser'), across reloads
+type StoredRegions = Record<string, RegionOfInterest>;
+
+function readStore(): StoredRegions {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') as StoredRegions;
+  } catch (e) {
+    return {};
+  }
+}
+
+export function loadRegionOfInterest(surface: string): RegionOfInterest | null {
+  return readStore()[surface] ?? null;
+}
+
+export function saveRegionOfInterest(surface: string, roi: RegionOfInterest | null) {
+  const store = readStore();
+  if (roi) store[surface] = roi;
+  else delete store[surface];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (e) {
+    console.warn('Could not persist region of interest:', e);
+  }
+}
+
+export function clampRegionOfInterest(roi: RegionOfInterest): RegionOfInterest {
+  const x = Math.min(1, Math.max(0, roi.x));
+  const y = Math.min(1, Math.max(0, roi.y));
+  return {
+    x,
+    y,
+    width: Math.min(1 - x, Math.max(0, roi.width)),
+    height: Math.min(1 - y, Math.max(0, roi.height)),
+  };
+}
+
+// Source rectangle in video pixels; the whole frame when there is no ROI
+export function roiToPixels(roi: RegionOfInterest | null, videoWidth: number, videoHeight: number): PixelRect {
+  if (!roi) return { sx: 0, sy: 0, sw: videoWidth, sh: videoHeight };
+  return {
+    sx: Math.round(roi.x * videoWidth),
+    sy: Math.round(roi.y * videoHeight),
+    sw: Math.max(1, Math.round(roi.width * videoWidth)),
+    sh: Math.max(1, Math.round(roi.height * videoHeight)),
+  };
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { StreamingResampler, resample, decodePcm, parsePcmMimeType } from './resampler';
+
+const sine = (frequency: number, sampleRate: number, length: number, offset = 0) =>
+  Float32Array.from({ length }, (_, i) => Math.sin(2 * Math.PI * frequency * (i + offset) / sampleRate));
+
+const rms = (samples: Float32Array) => Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+
+describe('StreamingResampler', () => {
+  it('passes audio through untouched when the rates match', () => {
+    const input = sine(440, 16000, 256);
+    expect(new StreamingResampler(16000, 16000).process(input)).toBe(input);
+  });
+
+  it('produces the expected number of samples across chunks', () => {
+    const resampler = new StreamingResampler(48000, 16000);
+    let total = 0;
+    for (let i = 0; i < 375; i++) total += resampler.process(new Float32Array(128)).length;
+    // 48000 input samples -> one second at 16 kHz, give or take the interpolation edge
+    expect(Math.abs(total - 16000)).toBeLessThanOrEqual(1);
+  });
+
+  it('gives the same output whether the input is streamed or converted at once', () => {
+    const input = sine(300, 24000, 2400);
+    const whole = resample(input, 24000, 44100);
+
+    const resampler = new StreamingResampler(24000, 44100);
+    const parts: number[] = [];
+    for (let i = 0; i < input.length; i += 100) parts.push(...resampler.process(input.subarray(i, i + 100)));
+
+    expect(parts.length).toBe(whole.length);
+    parts.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 5));
+  });
+
+  it('keeps speech-band tones and attenuates what would alias', () => {
+    const speech = rms(resample(sine(1000, 48000, 48000), 48000, 16000).subarray(1000)); // Past the filter's settling time
+    const aliasing = rms(resample(sine(12000, 48000, 48000), 48000, 16000).subarray(1000));
+    expect(speech).toBeGreaterThan(0.6);
+    expect(aliasing).toBeLessThan(speech / 3);
+  });
+
+  it('starts over after reset', () => {
+    const resampler = new StreamingResampler(48000, 16000);
+    const first = resampler.process(sine(500, 48000, 480));
+    resampler.reset();
+    expect(Array.from(resampler.process(sine(500, 48000, 480)))).toEqual(Array.from(first));
+  });
+});
+
+describe('decodePcm', () => {
+  it('decodes little-endian 16-bit samples', () => {
+    const bytes = new Uint8Array(new Int16Array([0, 16384, -32768]).buffer);
+    expect(Array.from(decodePcm(bytes, 's16'))).toEqual([0, 0.5, -1]);
+  });
+
+  it('decodes little-endian float samples', () => {
+    const bytes = new Uint8Array(new Float32Array([0.25, -0.75]).buffer);
+    expect(Array.from(decodePcm(bytes, 'f32'))).toEqual([0.25, -0.75]);
+  });
+});
+
+describe('parsePcmMimeType', () => {
+  it('reads the rate and encoding from the mime type', () => {
+    expect(parsePcmMimeType('audio/pcm;rate=16000')).toEqual({ sampleRate: 16000, encoding: 's16' });
+    expect(parsePcmMimeType('audio/pcm;encoding=f32;rate=44100')).toEqual({ sampleRate: 44100, encoding: 'f32' });
+  });
+
+  it('falls back to the Gemini output format', () => {
+    expect(parsePcmMimeType(undefined)).toEqual({ sampleRate: 24000, encoding: 's16' });
+  });
+});
@@ -0,0 +1,128 @@
+export type PcmEncoding = 'f32' | 's16';
+
+/** Raw little-endian PCM as delivered by Gemini / TTS providers. */
+export interface PcmFormat {
+  sampleRate: number;
+  encoding: PcmEncoding;
+}
+
+export const GEMINI_OUTPUT_FORMAT: PcmFormat = { sampleRate: 24000, encoding: 's16' };
+
+// Gemini labels audio parts like "audio/pcm;rate=24000" (16-bit signed)
+export function parsePcmMimeType(mimeType: string | undefined, fallback: PcmFormat = GEMINI_OUTPUT_FORMAT): PcmFormat {
+  if (!mimeType) return fallback;
+  const rate = mimeType.match(/rate=(\d+)/);
+  const encoding: PcmEncoding = /f32|float/i.test(mimeType) ? 'f32' : 's16';
+  return {
+    sampleRate: rate ? parseInt(rate[1], 10) : fallback.sampleRate,
+    encoding,
+  };
+}
+
+/** Decodes raw little-endian mono PCM bytes into float samples in [-1, 1]. */
+export function decodePcm(bytes: Uint8Array, encoding: PcmEncoding): Float32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (encoding === 'f32') {
+    const out = new Float32Array(Math.floor(bytes.byteLength / 4));
+    for (let i = 0; i < out.length; i++) out[i] = view.getFloat32(i * 4, true);
+    return out;
+  }
+  const out = new Float32Array(Math.floor(bytes.byteLength / 2));
+  for (let i = 0; i < out.length; i++) out[i] = view.getInt16(i * 2, true) / 32768;
+  return out;
+}
+
+/**
+ * Streaming sample-rate converter for mono float audio.
+ *
+ * Linear interpolation with state carried across chunks, so chunk boundaries don't click.
+ * When downsampling, a biquad low-pass at 90% of the target Nyquist runs first to keep
+ * aliasing out of the speech band.
+ *
+ * Self-contained on purpose (no imports or module-level references): the capture
+ * worklet embeds this class via `toString()`.
+ */
+export class StreamingResampler {
+  fromRate: number;
+  toRate: number;
+  step: number;
+  position: number;
+  previous: number;
+  filter: { b0: number; b1: number; b2: number; a1: number; a2: number } | null;
+  x1: number;
+  x2: number;
+  y1: number;
+  y2: number;
+
+  constructor(fromRate: number, toRate: number) {
+    this.fromRate = fromRate;
+    this.toRate = toRate;
+    this.step = fromRate / toRate;
+    this.filter = null;
+    if (toRate < fromRate) {
+      // RBJ cookbook low-pass, Q = 1/sqrt(2)
+      const w0 = 2 * Math.PI * (0.45 * toRate) / fromRate;
+      const alpha = Math.sin(w0) / Math.SQRT2;
+      const cos = Math.cos(w0);
+      const a0 = 1 + alpha;
+      this.filter = {
+        b0: (1 - cos) / 2 / a0,
+        b1: (1 - cos) / a0,
+        b2: (1 - cos) / 2 / a0,
+        a1: -2 * cos / a0,
+        a2: (1 - alpha) / a0,
+      };
+    }
+    this.position = 0;
+    this.previous = 0;
+    this.x1 = this.x2 = this.y1 = this.y2 = 0;
+  }
+
+  reset() {
+    this.position = 0;
+    this.previous = 0;
+    this.x1 = this.x2 = this.y1 = this.y2 = 0;
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.fromRate === this.toRate) return input;
+
+    let samples = input;
+    const f = this.filter;
+    if (f) {
+      samples = new Float32Array(input.length);
+      for (let i = 0; i < input.length; i++) {
+        const x = input[i];
+        const y = f.b0 * x + f.b1 * this.x1 + f.b2 * this.x2 - f.a1 * this.y1 - f.a2 * this.y2;
+        this.x2 = this.x1; this.x1 = x;
+        this.y2 = this.y1; this.y1 = y;
+        samples[i] = y;
+      }
+    }
+
+    const n = samples.length;
+    if (n === 0) return samples;
+
+    // Index -1 refers to the last sample of the previous chunk
+    const out = new Float32Array(Math.ceil((n - this.position) / this.step) + 1);
+    let count = 0;
+    let t = this.position;
+    while (t < n - 1) {
+      const i = Math.floor(t);
+      const frac = t - i;
+      const a = i < 0 ? this.previous : samples[i];
+      const b = samples[i + 1];
+      out[count++] = a + (b - a) * frac;
+      t += this.step;
+    }
+
+    this.position = t - n;
+    this.previous = samples[n - 1];
+    return out.subarray(0, count);
+  }
+}
+
+/** One-shot conversion for complete buffers (stills, WAV export, tests). */
+export function resample(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  return new StreamingResampler(fromRate, toRate).process(input);
+}
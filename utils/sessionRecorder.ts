@@ -0,0 +1,255 @@
+import {
+  LiveConnectConfig,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import type { LiveTransport, LiveTransportSession } from './liveTransport';
+
+export const SESSION_RECORDING_VERSION = 1;
+
+export type SessionRecordingEventKind =
+  | 'open'
+  | 'close'
+  | 'realtimeInput'
+  | 'clientContent'
+  | 'toolResponse'
+  | 'serverMessage';
+
+export interface SessionRecordingEvent {
+  t: number; // ms since recording started
+  direction: 'in' | 'out';
+  kind: SessionRecordingEventKind;
+  payload?: unknown;
+}
+
+/** Portable session file. Plain JSON so it can be attached to bug reports and diffed. */
+export interface SessionRecording {
+  version: number;
+  startedAt: string;
+  model: string;
+  config: LiveConnectConfig;
+  events: SessionRecordingEvent[];
+}
+
+export interface SessionRecorderOptions {
+  // Outgoing mic audio/video frames are huge; by default only their mime type and size are kept
+  captureOutgoingMedia?: boolean;
+}
+
+// Replace base64 media payloads with their size so long recordings stay small
+function elideMedia(params: LiveSendRealtimeInputParameters): LiveSendRealtimeInputParameters {
+  const elide = (blob: any) => {
+    if (!blob || typeof blob.data !== 'string') return blob;
+    const { data, ...rest } = blob;
+    return { ...rest, elidedBytes: Math.floor(data.length * 3 / 4) };
+  };
+  return {
+    ...params,
+    media: elide(params.media),
+    audio: elide(params.audio),
+    video: elide(params.video),
+  };
+}
+
+/**
+ * Taps a LiveTransport and records traffic in both directions with relative timestamps.
+ * The hook always routes sessions through `wrap()`, so recording can start mid-session
+ * and keeps going across reconnects until `stop()`.
+ */
+export class SessionRecorder {
+  private options: SessionRecorderOptions;
+  private active = false;
+  private startTime = 0;
+  private startedAt = new Date();
+  private model = '';
+  private config: LiveConnectConfig = {};
+  private events: SessionRecordingEvent[] = [];
+
+  constructor(options: SessionRecorderOptions = {}) {
+    this.options = options;
+  }
+
+  get isRecording(): boolean {
+    return this.active;
+  }
+
+  get eventCount(): number {
+    return this.events.length;
+  }
+
+  start() {
+    this.active = true;
+    this.events = [];
+    this.startTime = performance.now();
+    this.startedAt = new Date();
+  }
+
+  stop(): SessionRecording {
+    this.active = false;
+    return {
+      version: SESSION_RECORDING_VERSION,
+      startedAt: this.startedAt.toISOString(),
+      model: this.model,
+      config: this.config,
+      events: this.events,
+    };
+  }
+
+  private record(direction: SessionRecordingEvent['direction'], kind: SessionRecordingEventKind, payload?: unknown) {
+    if (!this.active) return;
+    // Round-trip through JSON so later mutation by the caller can't alter the recording
+    const snapshot = payload === undefined ? undefined : JSON.parse(JSON.stringify(payload));
+    this.events.push({ t: Math.round(performance.now() - this.startTime), direction, kind, payload: snapshot });
+  }
+
+  wrap(inner: LiveTransport): LiveTransport {
+    return {
+      name: inner.name,
+      requiresApiKey: inner.requiresApiKey,
+      canReconnect: inner.canReconnect,
+      connect: async (params: LiveConnectParameters): Promise<LiveTransportSession> => {
+        const { abortSignal, httpOptions, ...config } = params.config || {};
+        this.model = params.model;
+        this.config = config;
+
+        const { callbacks } = params;
+        const session = await inner.connect({
+          ...params,
+          callbacks: {
+            onopen: () => {
+              this.record('in', 'open');
+              callbacks.onopen?.();
+            },
+            onmessage: (msg: LiveServerMessage) => {
+              this.record('in', 'serverMessage', msg);
+              return callbacks.onmessage(msg);
+            },
+            onerror: callbacks.onerror,
+            onclose: (e: CloseEvent) => {
+              this.record('in', 'close', { code: e?.code, reason: e?.reason });
+              callbacks.onclose?.(e);
+            },
+          },
+        });
+
+        return {
+          sendRealtimeInput: (input: LiveSendRealtimeInputParameters) => {
+            this.record('out', 'realtimeInput', this.options.captureOutgoingMedia ? input : elideMedia(input));
+            session.sendRealtimeInput(input);
+          },
+          sendClientContent: (content: LiveSendClientContentParameters) => {
+            this.record('out', 'clientContent', content);
+            session.sendClientContent(content);
+          },
+          sendToolResponse: (response: LiveSendToolResponseParameters) => {
+            this.record('out', 'toolResponse', response);
+            session.sendToolResponse(response);
+          },
+          close: () => session.close(),
+        };
+      },
+    };
+  }
+}
+
+export function downloadSessionRecording(recording: SessionRecording) {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `omni-session-${recording.startedAt.replace(/[:.]/g, '-')}.json`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export async function loadSessionRecording(file: File): Promise<SessionRecording> {
+  const recording = JSON.parse(await file.text()) as SessionRecording;
+  if (recording.version !== SESSION_RECORDING_VERSION || !Array.isArray(recording.events)) {
+    throw new Error(`Unsupported session file (version ${recording.version})`);
+  }
+  return recording;
+}
+
+// What the recorded session sent back for a tool call, or undefined if the recording missed it
+export function findRecordedToolResult(recording: SessionRecording, callId: string | undefined): unknown {
+  for (const event of recording.events) {
+    if (event.direction !== 'out' || event.kind !== 'toolResponse') continue;
+    const { functionResponses } = event.payload as LiveSendToolResponseParameters;
+    const responses = Array.isArray(functionResponses) ? functionResponses : [functionResponses];
+    const match = responses.find(response => response.id === callId);
+    if (match) return match.response?.result;
+  }
+  return undefined;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Feeds a recording's incoming messages back through the normal callbacks.
+ * Messages are delivered strictly in order and each one is awaited before the next,
+ * so async handlers see exactly the recorded sequence no matter how slow they are.
+ */
+export class ReplayLiveTransport implements LiveTransport {
+  readonly name = 'Session Replay';
+  readonly requiresApiKey = false;
+  // A finished replay must not trigger the reconnect logic
+  readonly canReconnect = false;
+  private recording: SessionRecording;
+  private speed: number;
+
+  constructor(recording: SessionRecording, speed: number = 1) {
+    this.recording = recording;
+    this.speed = speed;
+  }
+
+  async connect(params: LiveConnectParameters): Promise<LiveTransportSession> {
+    const { callbacks } = params;
+    let closed = false;
+
+    const finish = (code: number, reason: string) => {
+      if (closed) return;
+      closed = true;
+      callbacks.onclose?.(new CloseEvent('close', { code, reason }));
+    };
+
+    const session: LiveTransportSession = {
+      // Outgoing traffic is dropped - the replayed server doesn't listen
+      sendRealtimeInput: () => {},
+      sendClientContent: () => {},
+      sendToolResponse: () => {},
+      close: () => finish(1000, 'Replay stopped'),
+    };
+
+    const incoming = this.recording.events.filter(e => e.direction === 'in' && e.kind === 'serverMessage');
+    const replayStart = performance.now();
+    const timeOffset = incoming.length > 0 ? incoming[0].t : 0;
+
+    const run = async () => {
+      for (const event of incoming) {
+        if (closed) return;
+        const due = (event.t - timeOffset) / this.speed;
+        const wait = due - (performance.now() - replayStart);
+        if (wait > 0) await sleep(wait);
+        if (closed) return;
+        await callbacks.onmessage(event.payload as LiveServerMessage);
+      }
+      finish(1000, 'Replay finished');
+    };
+
+    // Mirror the SDK: onopen first, then resolve, then messages start flowing
+    setTimeout(() => {
+      callbacks.onopen?.();
+      run().catch(e => {
+        if (closed) return;
+        const message = e instanceof Error ? e.message : String(e);
+        callbacks.onerror?.(new ErrorEvent('error', { message: `Replay failed: ${message}` }));
+        finish(1011, 'Replay failed');
+      });
+    }, 0);
+
+    return session;
+  }
+}
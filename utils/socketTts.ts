@@ -0,0 +1,234 @@
+import type { TtsCallbacks, TtsProvider, TtsVoice, TtsWordTimestamps } from './ttsProvider';
+import { PcmFormat } from './resampler';
+import { EmotionDelivery, NEUTRAL_DELIVERY } from './emotionDelivery';
+
+// Reconnect backoff after the socket drops: 0.5s, 1s, 2s ... capped at 8s
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+const MAX_RECONNECT_ATTEMPTS = 5;
+// Text streamed while reconnecting is held and replayed under its own context, up to this many
+const MAX_PENDING_TRANSCRIPTS = 50;
+// Cancelled contexts remembered so their late messages can be dropped
+const MAX_CANCELLED_CONTEXTS = 20;
+// Contexts whose start on the audio timeline is remembered, for their word timestamps
+const MAX_TIMED_CONTEXTS = 20;
+
+// Held while the socket is down; null text is the end of the utterance
+interface PendingMessage {
+  contextId: string;
+  text: string | null;
+}
+
+/**
+ * Shared plumbing for TTS services spoken to over one WebSocket: connect, reconnect with
+ * backoff (keeping the current context so an utterance carries on), hold text while the
+ * socket is down, and rotate the context on cancel.
+ *
+ * Subclasses describe the wire format: the URL, the messages for text / end of utterance /
+ * cancel, and how to read what comes back.
+ */
+export abstract class SocketTts implements TtsProvider {
+  abstract readonly name: string;
+  readonly outputFormat: PcmFormat;
+  protected callbacks: TtsCallbacks;
+  protected contextId: string;
+  // Applied to each text message; subclasses map it onto their own controls
+  protected delivery: EmotionDelivery = NEUTRAL_DELIVERY;
+  private ws: WebSocket | null = null;
+  private isFlushing: boolean = false;
+  private intentionalClose: boolean = false;
+  private reconnectAttempt: number = 0;
+  private reconnectTimer: number | null = null;
+  private pendingTranscripts: PendingMessage[] = [];
+  private cancelledContexts: string[] = [];
+  // Seconds of audio passed to onAudio so far, and where each context's audio began on that timeline
+  private audioTime = 0;
+  private contextStarts = new Map<string, number>();
+
+  constructor(callbacks: TtsCallbacks, outputFormat: PcmFormat) {
+    this.callbacks = callbacks;
+    this.outputFormat = outputFormat;
+    this.contextId = this.generateContextId();
+  }
+
+  protected abstract socketUrl(): string;
+  protected abstract textMessage(contextId: string, text: string): object;
+  // Null when the service needs no explicit end of utterance
+  protected abstract finishMessage(contextId: string): object | null;
+  protected abstract cancelMessage(contextId: string): object;
+  protected abstract handleMessage(data: string | ArrayBuffer): void;
+  abstract listVoices(): Promise<TtsVoice[]>;
+
+  // Sent on every (re)connect, before any held text
+  protected openMessages(): object[] {
+    return [];
+  }
+
+  private generateContextId(): string {
+    return `ctx_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+  }
+
+  connect(): Promise<void> {
+    this.intentionalClose = false;
+    return this.open();
+  }
+
+  private open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.socketUrl());
+      ws.binaryType = 'arraybuffer';
+      this.ws = ws;
+      let opened = false;
+
+      ws.onopen = () => {
+        opened = true;
+        this.reconnectAttempt = 0;
+        this.openMessages().forEach(message => ws.send(JSON.stringify(message)));
+        // Replay what was said while the socket was down, each under the context it was meant for,
+        // closing the utterances that were flushed in the meantime
+        const pending = this.pendingTranscripts;
+        this.pendingTranscripts = [];
+        pending.forEach(({ contextId, text }) => {
+          const message = text === null ? this.finishMessage(contextId) : this.textMessage(contextId, text);
+          if (message) ws.send(JSON.stringify(message));
+        });
+        resolve();
+      };
+
+      ws.onerror = (err) => {
+        console.error(`${this.name} WS Error`, err);
+        if (!opened) reject(new Error(`Could not connect to ${this.name}`));
+      };
+
+      ws.onclose = (event) => {
+        if (this.ws !== ws) return;
+        this.ws = null;
+        // A failed open is reported through the rejected promise instead
+        if (!opened || this.intentionalClose) return;
+        console.warn(`${this.name} socket closed (${event.code}${event.reason ? `: ${event.reason}` : ''})`);
+        this.scheduleReconnect();
+      };
+
+      ws.onmessage = (event) => this.handleMessage(event.data);
+    });
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+      this.pendingTranscripts = [];
+      this.callbacks.onStatus?.('failed', this.reconnectAttempt);
+      return;
+    }
+    const attempt = ++this.reconnectAttempt;
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1));
+    this.callbacks.onStatus?.('reconnecting', attempt);
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open()
+        .then(() => this.callbacks.onStatus?.('connected', attempt))
+        .catch(() => {
+          if (!this.intentionalClose) this.scheduleReconnect();
+        });
+    }, delay);
+  }
+
+  // Messages for a context that was cancelled belong to speech that was cut off. A flushed
+  // context is still live: its audio keeps arriving after the turn's text has all been sent.
+  protected isLiveContext(contextId: string | undefined): boolean {
+    return !contextId || !this.cancelledContexts.includes(contextId);
+  }
+
+  // Services time words from the start of their context; rebase them onto the whole audio timeline
+  private contextStart(contextId: string | undefined): number {
+    if (!contextId) return 0;
+    let start = this.contextStarts.get(contextId);
+    if (start === undefined) {
+      start = this.audioTime;
+      this.contextStarts.set(contextId, start);
+      if (this.contextStarts.size > MAX_TIMED_CONTEXTS) this.contextStarts.delete(this.contextStarts.keys().next().value!);
+    }
+    return start;
+  }
+
+  protected emitAudio(contextId: string | undefined, samples: Float32Array) {
+    this.contextStart(contextId);
+    this.audioTime += samples.length / this.outputFormat.sampleRate;
+    this.callbacks.onAudio(samples);
+  }
+
+  protected emitTimestamps(contextId: string | undefined, timestamps: TtsWordTimestamps) {
+    const offset = this.contextStart(contextId);
+    this.callbacks.onTimestamps?.({
+      words: timestamps.words,
+      start: timestamps.start.map(t => t + offset),
+      end: timestamps.end.map(t => t + offset),
+    });
+  }
+
+  private post(message: object): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return false;
+    this.ws.send(JSON.stringify(message));
+    return true;
+  }
+
+  // Hold on to a message while the socket comes back
+  private hold(message: PendingMessage) {
+    if (this.reconnectTimer === null && this.ws?.readyState !== WebSocket.CONNECTING) return;
+    // An end of utterance is always kept, even once the text overflowed
+    if (message.text === null || this.pendingTranscripts.length < MAX_PENDING_TRANSCRIPTS) this.pendingTranscripts.push(message);
+  }
+
+  streamText(text: string) {
+    if (this.isFlushing) return; // Don't send while flushing
+    if (!this.post(this.textMessage(this.contextId, text))) this.hold({ contextId: this.contextId, text });
+  }
+
+  setDelivery(delivery: EmotionDelivery) {
+    this.delivery = delivery;
+  }
+
+  flush() {
+    const message = this.finishMessage(this.contextId);
+    // Queued behind the turn's held text, so the utterance is closed once that has been replayed
+    if (message && !this.post(message)) this.hold({ contextId: this.contextId, text: null });
+    // The next turn is a new utterance
+    this.contextId = this.generateContextId();
+  }
+
+  /**
+   * Cancel current TTS generation.
+   * This is called when the user interrupts the AI mid-speech.
+   * We reset the context_id to start fresh for the next response.
+   */
+  cancel() {
+    this.pendingTranscripts = [];
+    this.cancelledContexts.push(this.contextId);
+    if (this.cancelledContexts.length > MAX_CANCELLED_CONTEXTS) this.cancelledContexts.shift();
+    try {
+      this.post(this.cancelMessage(this.contextId));
+    } catch (e) {
+      console.error(`Failed to send cancel to ${this.name}:`, e);
+    }
+    this.contextId = this.generateContextId();
+
+    // Allow sending again after a brief delay
+    this.isFlushing = true;
+    setTimeout(() => {
+      this.isFlushing = false;
+    }, 50);
+  }
+
+  disconnect() {
+    this.intentionalClose = true;
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.pendingTranscripts = [];
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+    this.isFlushing = false;
+  }
+}
@@ -0,0 +1,100 @@
+import type { TtsCallbacks, TtsProvider, TtsVoice } from './ttsProvider';
+import { EmotionDelivery, NEUTRAL_DELIVERY } from './emotionDelivery';
+
+/**
+ * The browser's built-in `speechSynthesis`. Free and offline, but the browser plays the audio
+ * itself: it doesn't go through the output chain (device selection, recording, level-based
+ * ducking), so speaking state is reported through onSpeaking instead.
+ *
+ * Each streamed segment becomes its own utterance; the browser queues them.
+ */
+export class SpeechSynthesisTts implements TtsProvider {
+  readonly name = 'Browser Speech';
+  readonly outputFormat = null;
+  private voiceURI: string;
+  private callbacks: TtsCallbacks;
+  private voice: SpeechSynthesisVoice | null = null;
+  private delivery: EmotionDelivery = NEUTRAL_DELIVERY;
+  private queued = 0;
+  // Bumped on cancel, so the cancelled utterances' error events are ignored
+  private generation = 0;
+
+  constructor(voiceURI: string, callbacks: TtsCallbacks) {
+    this.voiceURI = voiceURI;
+    this.callbacks = callbacks;
+  }
+
+  async connect() {
+    const voices = await loadVoices();
+    this.voice = voices.find(v => v.voiceURI === this.voiceURI) ?? null;
+    if (this.voiceURI && !this.voice) this.callbacks.onError?.(`Voice "${this.voiceURI}" is not available in this browser; using the default.`);
+  }
+
+  streamText(text: string) {
+    const utterance = new SpeechSynthesisUtterance(text);
+    if (this.voice) utterance.voice = this.voice;
+    // No emotion controls here: speed maps to rate (0.5-1.5x), and the native-audio rate to pitch
+    utterance.rate = 1 + this.delivery.speed * 0.5;
+    utterance.pitch = this.delivery.playbackRate;
+    const generation = this.generation;
+    utterance.onstart = () => this.callbacks.onSpeaking?.(true);
+    utterance.onboundary = (event) => {
+      if (event.name !== 'word' || generation !== this.generation) return;
+      const word = text.slice(event.charIndex).match(/^\S+/);
+      if (word) this.callbacks.onWordBoundary?.(word[0]);
+    };
+    utterance.onend = utterance.onerror = () => {
+      if (generation !== this.generation) return;
+      this.queued = Math.max(0, this.queued - 1);
+      if (this.queued === 0) {
+        this.callbacks.onSpeaking?.(false);
+        this.callbacks.onDone?.();
+      }
+    };
+    this.queued++;
+    window.speechSynthesis.speak(utterance);
+  }
+
+  setDelivery(delivery: EmotionDelivery) {
+    this.delivery = delivery;
+  }
+
+  // Segments are spoken as they arrive; nothing is held back
+  flush() {}
+
+  cancel() {
+    this.generation++;
+    this.queued = 0;
+    window.speechSynthesis.cancel();
+    this.callbacks.onSpeaking?.(false);
+  }
+
+  disconnect() {
+    this.cancel();
+  }
+
+  async listVoices(): Promise<TtsVoice[]> {
+    const voices = await loadVoices();
+    return voices.map(v => ({
+      id: v.voiceURI,
+      name: v.name,
+      description: v.localService ? 'On-device' : 'Network',
+      language: v.lang,
+    }));
+  }
+}
+
+// Chrome fills the list asynchronously; wait for it (briefly) when it is still empty
+function loadVoices(): Promise<SpeechSynthesisVoice[]> {
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+  return new Promise(resolve => {
+    const done = () => {
+      window.speechSynthesis.removeEventListener('voiceschanged', done);
+      clearTimeout(timeout);
+      resolve(window.speechSynthesis.getVoices());
+    };
+    const timeout = window.setTimeout(done, 1000);
+    window.speechSynthesis.addEventListener('voiceschanged', done);
+  });
+}
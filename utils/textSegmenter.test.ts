@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TextSegmenter, normalizeForSpeech, DEFAULT_SEGMENT_MAX_LATENCY_MS } from './textSegmenter';
+
+describe('TextSegmenter', () => {
+  let segments: string[];
+  let segmenter: TextSegmenter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // The segmenter schedules through window.setTimeout
+    vi.stubGlobal('window', globalThis);
+    segments = [];
+    segmenter = new TextSegmenter(text => segments.push(text));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('buffers fragments up to a sentence boundary', () => {
+    ['Hel', 'lo there', '. How', ' are you'].forEach(text => segmenter.push(text));
+    expect(segments).toEqual(['Hello there. ']);
+    segmenter.flush();
+    expect(segments).toEqual(['Hello there. ', 'How are you ']);
+  });
+
+  it('waits for the whitespace after a period before treating it as a boundary', () => {
+    segmenter.push('It is 3.');
+    expect(segments).toEqual([]);
+    segmenter.push('5 degrees. ');
+    expect(segments).toEqual(['It is 3.5 degrees. ']);
+  });
+
+  it('does not end a sentence at an abbreviation', () => {
+    segmenter.push('Ask Dr. Smith about it. ');
+    expect(segments).toEqual(['Ask Doctor Smith about it. ']);
+  });
+
+  it('only breaks at a clause once the segment is long enough', () => {
+    segmenter.push('Well, ');
+    expect(segments).toEqual([]);
+    segmenter.push('after thinking about it for quite a while, ');
+    expect(segments).toEqual(['Well, after thinking about it for quite a while, ']);
+  });
+
+  it('emits up to the last whole word when no boundary shows up in time', () => {
+    segmenter.push('This sentence just keeps going and goi');
+    vi.advanceTimersByTime(DEFAULT_SEGMENT_MAX_LATENCY_MS);
+    expect(segments).toEqual(['This sentence just keeps going and ']);
+    segmenter.push('ng. ');
+    expect(segments).toEqual(['This sentence just keeps going and ', 'going. ']);
+  });
+
+  it('never splits a control tag that is still arriving', () => {
+    segmenter.push('[S:EXC');
+    vi.advanceTimersByTime(DEFAULT_SEGMENT_MAX_LATENCY_MS);
+    segmenter.push('ITED] Great news! ');
+    expect(segments).toEqual(['Great news! ']);
+  });
+
+  it('drops unsent text on reset', () => {
+    segmenter.push('Half a sent');
+    segmenter.reset();
+    vi.advanceTimersByTime(DEFAULT_SEGMENT_MAX_LATENCY_MS * 2);
+    segmenter.flush();
+    expect(segments).toEqual([]);
+  });
+});
+
+describe('normalizeForSpeech', () => {
+  it('removes control tags and markdown', () => {
+    expect(normalizeForSpeech('[S:HAPPY] ## Title')).toBe('Title');
+    expect(normalizeForSpeech('[s:positive] Sure thing')).toBe('Sure thing');
+    expect(normalizeForSpeech('See [the docs](https://example.com) and `npm test`')).toBe('See the docs and npm test');
+    expect(normalizeForSpeech('- first\n* second')).toBe('first second');
+  });
+
+  it('strips emphasis markers only when they pair up', () => {
+    expect(normalizeForSpeech('This is **very** *good* and ~~bad~~')).toBe('This is very good and bad');
+    expect(normalizeForSpeech('5 * 3 = 15')).toBe('5 * 3 = 15');
+    expect(normalizeForSpeech('snake_case__name')).toBe('snake_case__name');
+  });
+
+  it('speaks currency after the amount, including its scale', () => {
+    expect(normalizeForSpeech('$1,200')).toBe('1200 dollars');
+    expect(normalizeForSpeech('It costs $5k')).toBe('It costs 5 thousand dollars');
+    expect(normalizeForSpeech('€2.5bn raised')).toBe('2.5 billion euros raised');
+    expect(normalizeForSpeech('£3 million')).toBe('3 million pounds');
+  });
+
+  it('reads ranges only where they are clearly ranges', () => {
+    expect(normalizeForSpeech('Wait 5-10 minutes')).toBe('Wait 5 to 10 minutes');
+    expect(normalizeForSpeech('Up 10-20%')).toBe('Up 10 to 20 percent');
+    expect(normalizeForSpeech('Read pages 4-7')).toBe('Read pages 4 to 7');
+    expect(normalizeForSpeech('See pp. 4-7')).toBe('See pages 4 to 7');
+    expect(normalizeForSpeech('It ended 3-2')).toBe('It ended 3-2');
+    expect(normalizeForSpeech('Call 555-1234')).toBe('Call 555-1234');
+  });
+
+  it('writes out percentages, ampersands and abbreviations', () => {
+    expect(normalizeForSpeech('50% off')).toBe('50 percent off');
+    expect(normalizeForSpeech('salt & pepper')).toBe('salt and pepper');
+    expect(normalizeForSpeech('cats vs. dogs, e.g. pets')).toBe('cats versus dogs, for example pets');
+  });
+});
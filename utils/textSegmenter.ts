@@ -0,0 +1,178 @@
+// Emit whatever is buffered (up to the last whole word) if no boundary shows up within this long
+export const DEFAULT_SEGMENT_MAX_LATENCY_MS = 600;
+// Clause breaks (commas, semicolons...) only end a segment once it is at least this long;
+// shorter ones make the voice sound clipped
+const CLAUSE_MIN_CHARS = 40;
+// An unclosed "[" this close to the end may be the start of a control tag split across fragments
+const TAG_LOOKAHEAD_CHARS = 24;
+
+// Control tags the model is asked to emit ([S:EXCITED], [CONTEXT] ...); never spoken. Any case,
+// like the sentiment parser.
+const CONTROL_TAG_REGEX = /\[[A-Z_]+(?::[A-Z_]+)?\]/gi;
+
+// A period after these doesn't end a sentence. Lowercase, without the trailing dot.
+const ABBREVIATIONS: Record<string, string> = {
+  'mr': 'Mister',
+  'mrs': 'Missus',
+  'ms': 'Miz',
+  'dr': 'Doctor',
+  'prof': 'Professor',
+  'vs': 'versus',
+  'etc': 'et cetera',
+  'e.g': 'for example',
+  'i.e': 'that is',
+  'approx': 'approximately',
+};
+
+const CURRENCIES: Record<string, string> = { '$': 'dollars', '€': 'euros', '£': 'pounds' };
+// "$5k", "$2bn" ...; lowercase
+const CURRENCY_SCALES: Record<string, string> = { 'k': 'thousand', 'm': 'million', 'mn': 'million', 'b': 'billion', 'bn': 'billion' };
+// "10-20" only reads as a range ahead of one of these (or "%", or after "pages"); otherwise it may be
+// a score, a date or a phone number
+const RANGE_UNITS = 'percent|seconds?|minutes?|hours?|days?|weeks?|months?|years?|mm|cm|m|km|miles?|g|kg|lbs?|mph|fps|[kmg]b';
+const RANGE_REGEX = new RegExp(`\\b(\\d+(?:\\.\\d+)?)\\s?[-–]\\s?(\\d+(?:\\.\\d+)?)(?=\\s?(?:%|(?:${RANGE_UNITS})\\b))`, 'gi');
+
+export interface TextSegmenterOptions {
+  maxLatencyMs?: number;
+}
+
+/**
+ * Sits between the streamed model text and the TTS client.
+ *
+ * Fragments arrive a few characters at a time; sending them as-is gives choppy prosody. This
+ * buffers to sentence (or, for long runs, clause) boundaries, flushes on a timer so speech
+ * never stalls on a long sentence, and cleans each segment up for speaking: control tags and
+ * markdown removed, abbreviations, currency and percentages written out.
+ */
+export class TextSegmenter {
+  private onSegment: (text: string) => void;
+  private maxLatencyMs: number;
+  private buffer = '';
+  private timer: number | null = null;
+
+  constructor(onSegment: (text: string) => void, options: TextSegmenterOptions = {}) {
+    this.onSegment = onSegment;
+    this.maxLatencyMs = options.maxLatencyMs ?? DEFAULT_SEGMENT_MAX_LATENCY_MS;
+  }
+
+  push(text: string) {
+    this.buffer += text;
+    const end = this.findBoundary();
+    if (end > 0) {
+      this.emit(this.buffer.slice(0, end));
+      this.buffer = this.buffer.slice(end);
+    }
+    if (this.buffer.trim()) {
+      if (this.timer === null) this.timer = window.setTimeout(() => this.flushOnTimeout(), this.maxLatencyMs);
+    } else {
+      this.clearTimer();
+    }
+  }
+
+  // End of the model's turn: speak whatever is left
+  flush() {
+    this.clearTimer();
+    const rest = this.buffer;
+    this.buffer = '';
+    this.emit(rest);
+  }
+
+  // Interrupted: drop the unsent text
+  reset() {
+    this.clearTimer();
+    this.buffer = '';
+  }
+
+  private flushOnTimeout() {
+    this.timer = null;
+    // Cut at the last whole word, short of any tag that may still be arriving
+    const limit = this.safeLength();
+    const lastSpace = this.buffer.lastIndexOf(' ', limit - 1);
+    if (lastSpace <= 0) {
+      // One long word so far: wait for more
+      if (this.buffer.trim()) this.timer = window.setTimeout(() => this.flushOnTimeout(), this.maxLatencyMs);
+      return;
+    }
+    this.emit(this.buffer.slice(0, lastSpace + 1));
+    this.buffer = this.buffer.slice(lastSpace + 1);
+    if (this.buffer.trim()) this.timer = window.setTimeout(() => this.flushOnTimeout(), this.maxLatencyMs);
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // How much of the buffer can be inspected without splitting a control tag
+  private safeLength(): number {
+    const open = this.buffer.lastIndexOf('[');
+    if (open >= 0 && this.buffer.indexOf(']', open) < 0 && this.buffer.length - open <= TAG_LOOKAHEAD_CHARS) return open;
+    return this.buffer.length;
+  }
+
+  // End (exclusive) of the last complete segment in the buffer, or 0
+  private findBoundary(): number {
+    const text = this.buffer.slice(0, this.safeLength());
+    let sentenceEnd = 0;
+    let clauseEnd = 0;
+    // A boundary needs the following whitespace: "3." may still become "3.5"
+    const boundary = /([.!?…]+["')\]]*|[,;:—])\s+|\n+/g;
+    let match: RegExpExecArray | null;
+    while ((match = boundary.exec(text))) {
+      const end = match.index + match[0].length;
+      // No group: a line break, which ends a sentence (list items, headings)
+      if (!match[1] || /[.!?…]/.test(match[1])) {
+        if (match[1]?.startsWith('.') && isAbbreviation(text, match.index)) continue;
+        sentenceEnd = end;
+      } else {
+        clauseEnd = end;
+      }
+    }
+    if (sentenceEnd > 0) return sentenceEnd;
+    return clauseEnd >= CLAUSE_MIN_CHARS ? clauseEnd : 0;
+  }
+
+  private emit(text: string) {
+    const spoken = normalizeForSpeech(text);
+    // Continuations are concatenated verbatim, so keep a separating space
+    if (spoken) this.onSegment(`${spoken} `);
+  }
+}
+
+function isAbbreviation(text: string, dotIndex: number): boolean {
+  const word = text.slice(0, dotIndex).match(/([A-Za-z.]+)$/);
+  return !!word && word[1].toLowerCase() in ABBREVIATIONS;
+}
+
+/** Strips tags and markdown and writes out things TTS tends to misread. */
+export function normalizeForSpeech(text: string): string {
+  return text
+    .replace(CONTROL_TAG_REGEX, '')
+    // Markdown: links keep their text, code keeps its content, emphasis/headings/bullets go
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/```[a-z]*\n?/gi, '')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+/gm, '')
+    // Emphasis only when the markers pair up around text, so "5 * 3" keeps its operator
+    .replace(/(\*\*|__|~~)(?=\S)([^\n]*?\S)\1/g, '$2')
+    .replace(/\*(?=\S)([^*\n]*?\S)\*/g, '$1')
+    // Numbers
+    .replace(/([$€£])\s?(\d[\d,]*(?:\.\d+)?)(?:\s?([kmb]n?|thousand|million|billion)\b)?/gi,
+      (_, symbol: string, amount: string, scale?: string) => {
+        const spokenScale = scale ? ` ${CURRENCY_SCALES[scale.toLowerCase()] ?? scale.toLowerCase()}` : '';
+        return `${amount}${spokenScale} ${CURRENCIES[symbol]}`;
+      })
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    .replace(/\b(pages?|pp?\.)\s?(\d+)\s?[-–]\s?(\d+)\b/gi,
+      (_, word: string, from: string, to: string) => `${/^page/i.test(word) ? word : 'pages'} ${from} to ${to}`)
+    .replace(RANGE_REGEX, '$1 to $2')
+    .replace(/(\d)\s?%/g, '$1 percent')
+    .replace(/\s&\s/g, ' and ')
+    // Abbreviations
+    .replace(/\b([A-Za-z]+(?:\.[A-Za-z])?)\.(?=\s|$)/g, (match, word: string) => ABBREVIATIONS[word.toLowerCase()] ?? match)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
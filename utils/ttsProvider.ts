@@ -0,0 +1,88 @@
+import { StreamConfig, TtsProviderType } from '../types';
+import { PcmFormat } from './resampler';
+import type { EmotionDelivery } from './emotionDelivery';
+import { CartesiaClient, CARTESIA_DEFAULT_FORMAT } from './cartesiaClient';
+import { SpeechSynthesisTts } from './speechSynthesisTts';
+import { WebSocketTts, DEFAULT_TTS_SERVER_URL } from './websocketTts';
+
+export interface TtsVoice {
+  id: string;
+  name: string;
+  description?: string;
+  language?: string;
+}
+
+export type TtsStatus = 'connected' | 'reconnecting' | 'failed';
+
+export interface TtsWordTimestamps {
+  words: string[];
+  // Seconds on the provider's audio timeline: all audio passed to onAudio since it was created
+  start: number[];
+  end: number[];
+}
+
+export interface TtsCallbacks {
+  // Mono float samples at the provider's outputFormat.sampleRate
+  onAudio: (samples: Float32Array) => void;
+  // Only for providers that play audio themselves (outputFormat null)
+  onSpeaking?: (speaking: boolean) => void;
+  // 'connected' after a successful reconnect; 'failed' once the provider has given up
+  onStatus?: (status: TtsStatus, attempt: number) => void;
+  onError?: (message: string) => void;
+  onDone?: () => void;
+  onTimestamps?: (timestamps: TtsWordTimestamps) => void;
+  // Providers that play audio themselves: a word is being spoken now
+  onWordBoundary?: (word: string) => void;
+}
+
+/**
+ * A text-to-speech backend that replaces Gemini's own voice. Text arrives already segmented
+ * (see TextSegmenter) as the model streams it; one utterance per model turn.
+ */
+export interface TtsProvider {
+  readonly name: string;
+  // PCM delivered through onAudio, or null when the provider plays audio itself
+  // (then it bypasses the output chain: no ducking by level, recording or device routing)
+  readonly outputFormat: PcmFormat | null;
+  connect(): Promise<void>;
+  streamText(text: string): void;
+  // End of the model's turn: finish speaking what was streamed
+  flush(): void;
+  // Interrupted: stop speaking now and drop anything queued
+  cancel(): void;
+  // How the following text should sound (from the turn's sentiment tag)
+  setDelivery(delivery: EmotionDelivery): void;
+  disconnect(): void;
+  listVoices(): Promise<TtsVoice[]>;
+}
+
+export const TTS_PROVIDER_LABELS: Record<TtsProviderType, string> = {
+  gemini: 'Gemini (native)',
+  cartesia: 'Cartesia Sonic',
+  speechSynthesis: 'Browser Speech',
+  websocket: 'WebSocket Server',
+};
+
+export function resolveTtsProviderType(config: StreamConfig): TtsProviderType {
+  return config.ttsProvider || 'gemini';
+}
+
+// Null for native Gemini audio, or when the selected provider is missing required settings
+export function createTtsProvider(config: StreamConfig, callbacks: TtsCallbacks): TtsProvider | null {
+  switch (resolveTtsProviderType(config)) {
+    case 'cartesia':
+      if (!config.cartesiaApiKey || !config.cartesiaVoiceId) return null;
+      return new CartesiaClient(config.cartesiaApiKey, config.cartesiaVoiceId, callbacks, {
+        sampleRate: config.cartesiaSampleRate || CARTESIA_DEFAULT_FORMAT.sampleRate,
+        encoding: config.cartesiaEncoding || CARTESIA_DEFAULT_FORMAT.encoding,
+      });
+    case 'speechSynthesis':
+      if (typeof window === 'undefined' || !('speechSynthesis' in window)) return null;
+      return new SpeechSynthesisTts(config.speechSynthesisVoice || '', callbacks);
+    case 'websocket':
+      return new WebSocketTts(config.ttsServerUrl || DEFAULT_TTS_SERVER_URL, config.ttsServerVoice || '', callbacks);
+    case 'gemini':
+    default:
+      return null;
+  }
+}
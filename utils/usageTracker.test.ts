@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MediaModality } from '@google/genai';
+import { UsageTracker, DEFAULT_LIVE_PRICING, getLivePricing, formatUsd } from './usageTracker';
+
+const MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+describe('UsageTracker', () => {
+  let tracker: UsageTracker;
+
+  beforeEach(() => {
+    tracker = new UsageTracker();
+  });
+
+  it('splits reported tokens by modality and sums the reports', () => {
+    const report = {
+      promptTokensDetails: [
+        { modality: MediaModality.TEXT, tokenCount: 100 },
+        { modality: MediaModality.AUDIO, tokenCount: 200 },
+        { modality: MediaModality.IMAGE, tokenCount: 50 },
+        { modality: MediaModality.VIDEO, tokenCount: 25 },
+      ],
+      responseTokensDetails: [
+        { modality: MediaModality.AUDIO, tokenCount: 300 },
+        { modality: MediaModality.TEXT, tokenCount: 10 },
+      ],
+      thoughtsTokenCount: 5,
+    };
+    tracker.addUsageMetadata(report, 'AUDIO');
+    tracker.addUsageMetadata(report, 'AUDIO');
+
+    const { tokens, totalTokens } = tracker.getSnapshot(MODEL, 'AUDIO');
+    expect(tokens).toEqual({ textIn: 200, audioIn: 400, videoIn: 150, textOut: 30, audioOut: 600 });
+    expect(totalTokens).toBe(1380);
+  });
+
+  it('books undetailed counts as text input and output in the current mode', () => {
+    tracker.addUsageMetadata({ promptTokenCount: 40, responseTokenCount: 60 }, 'AUDIO');
+    tracker.addUsageMetadata({ promptTokenCount: 10, responseTokenCount: 20 }, 'TEXT');
+    expect(tracker.getSnapshot(MODEL, 'AUDIO').tokens).toEqual({ textIn: 50, audioIn: 0, videoIn: 0, textOut: 20, audioOut: 60 });
+  });
+
+  it('prices each modality per million tokens', () => {
+    tracker.addUsageMetadata({
+      promptTokensDetails: [
+        { modality: MediaModality.TEXT, tokenCount: 1_000_000 },
+        { modality: MediaModality.AUDIO, tokenCount: 1_000_000 },
+      ],
+      responseTokensDetails: [{ modality: MediaModality.AUDIO, tokenCount: 500_000 }],
+    }, 'AUDIO');
+    // 0.5 text in + 3 audio in + half of 12 audio out
+    expect(tracker.getSnapshot(MODEL, 'AUDIO').cost).toBeCloseTo(9.5);
+  });
+
+  it('estimates the other output mode from the model text', () => {
+    tracker.addUsageMetadata({ promptTokensDetails: [{ modality: MediaModality.AUDIO, tokenCount: 1_000_000 }] }, 'AUDIO');
+    tracker.addModelText('x'.repeat(400_000));
+
+    // Spoken as audio, the same text would be 400k chars / 15 per second * 25 tokens per second
+    const fromText = tracker.getSnapshot(MODEL, 'TEXT');
+    expect(fromText.alternateMode).toBe('AUDIO');
+    expect(fromText.alternateCost).toBeCloseTo(3 + (400_000 / 15 * 25) * 12 / 1_000_000);
+
+    // Written out, 4 chars per token
+    const fromAudio = tracker.getSnapshot(MODEL, 'AUDIO');
+    expect(fromAudio.alternateMode).toBe('TEXT');
+    expect(fromAudio.alternateCost).toBeCloseTo(3 + 100_000 * 2 / 1_000_000);
+  });
+
+  it('starts from zero after reset', () => {
+    tracker.addUsageMetadata({ promptTokenCount: 100, responseTokenCount: 100 }, 'TEXT');
+    tracker.addModelText('hello');
+    tracker.reset();
+    const snapshot = tracker.getSnapshot(MODEL, 'TEXT');
+    expect(snapshot.totalTokens).toBe(0);
+    expect(snapshot.cost).toBe(0);
+    expect(snapshot.alternateCost).toBe(0);
+  });
+});
+
+describe('getLivePricing', () => {
+  it('falls back to the default prices for unknown models', () => {
+    expect(getLivePricing('some-future-model')).toBe(DEFAULT_LIVE_PRICING);
+  });
+});
+
+describe('formatUsd', () => {
+  it('shows sub-dollar amounts with four decimals', () => {
+    expect(formatUsd(0.01234)).toBe('$0.0123');
+    expect(formatUsd(12.345)).toBe('$12.35');
+  });
+});
@@ -0,0 +1,150 @@
+import { MediaModality, ModalityTokenCount, UsageMetadata } from '@google/genai';
+
+/** USD per 1M tokens. Live API bills input by modality and output by modality. */
+export interface LivePricing {
+  textIn: number;
+  audioIn: number;
+  videoIn: number;
+  textOut: number;
+  audioOut: number;
+}
+
+// Gemini 2.5 Flash Live (native audio) list prices
+export const DEFAULT_LIVE_PRICING: LivePricing = {
+  textIn: 0.5,
+  audioIn: 3.0,
+  videoIn: 3.0,
+  textOut: 2.0,
+  audioOut: 12.0,
+};
+
+// Per-model overrides; anything not listed falls back to DEFAULT_LIVE_PRICING
+const MODEL_PRICING: Record<string, LivePricing> = {
+  'gemini-2.5-flash-native-audio-preview-09-2025': DEFAULT_LIVE_PRICING,
+};
+
+export function getLivePricing(model: string): LivePricing {
+  return MODEL_PRICING[model] || DEFAULT_LIVE_PRICING;
+}
+
+// Used to estimate what the other output mode would have produced for the same transcript
+const CHARS_PER_TEXT_TOKEN = 4;
+const AUDIO_TOKENS_PER_SECOND = 25;
+const SPOKEN_CHARS_PER_SECOND = 15;
+
+export type OutputMode = 'TEXT' | 'AUDIO';
+
+export interface TokenUsage {
+  textIn: number;
+  audioIn: number;
+  videoIn: number;
+  textOut: number;
+  audioOut: number;
+}
+
+export interface UsageSnapshot {
+  tokens: TokenUsage;
+  totalTokens: number;
+  outputMode: OutputMode;
+  cost: number; // USD, current output mode
+  alternateMode: OutputMode;
+  alternateCost: number; // USD, same input with the other output mode
+}
+
+const emptyUsage = (): TokenUsage => ({ textIn: 0, audioIn: 0, videoIn: 0, textOut: 0, audioOut: 0 });
+
+function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    textIn: a.textIn + b.textIn,
+    audioIn: a.audioIn + b.audioIn,
+    videoIn: a.videoIn + b.videoIn,
+    textOut: a.textOut + b.textOut,
+    audioOut: a.audioOut + b.audioOut,
+  };
+}
+
+function inputCost(tokens: TokenUsage, pricing: LivePricing): number {
+  return (tokens.textIn * pricing.textIn + tokens.audioIn * pricing.audioIn + tokens.videoIn * pricing.videoIn) / 1_000_000;
+}
+
+export function formatUsd(amount: number): string {
+  return amount < 1 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Accumulates `usageMetadata` from Live server messages into per-modality totals.
+ * Each report covers the traffic since the previous one, so reports are simply summed.
+ */
+export class UsageTracker {
+  private totals = emptyUsage();
+  private modelChars = 0;
+
+  reset() {
+    this.totals = emptyUsage();
+    this.modelChars = 0;
+  }
+
+  addUsageMetadata(usage: UsageMetadata, outputMode: OutputMode) {
+    const report = emptyUsage();
+
+    const addDetails = (details: ModalityTokenCount[], direction: 'in' | 'out') => {
+      details.forEach(({ modality, tokenCount = 0 }) => {
+        if (direction === 'out') {
+          if (modality === MediaModality.AUDIO) report.audioOut += tokenCount;
+          else report.textOut += tokenCount;
+          return;
+        }
+        if (modality === MediaModality.AUDIO) report.audioIn += tokenCount;
+        else if (modality === MediaModality.IMAGE || modality === MediaModality.VIDEO) report.videoIn += tokenCount;
+        else report.textIn += tokenCount;
+      });
+    };
+
+    if (usage.promptTokensDetails?.length) {
+      addDetails(usage.promptTokensDetails, 'in');
+    } else {
+      report.textIn += usage.promptTokenCount || 0;
+    }
+
+    if (usage.responseTokensDetails?.length) {
+      addDetails(usage.responseTokensDetails, 'out');
+    } else if (outputMode === 'AUDIO') {
+      report.audioOut += usage.responseTokenCount || 0;
+    } else {
+      report.textOut += usage.responseTokenCount || 0;
+    }
+
+    // Thinking tokens are billed as text output
+    report.textOut += usage.thoughtsTokenCount || 0;
+
+    this.totals = addUsage(this.totals, report);
+  }
+
+  // Spoken/written model text, used to estimate the alternate output mode's cost
+  addModelText(text: string) {
+    this.modelChars += text.length;
+  }
+
+  getSnapshot(model: string, outputMode: OutputMode): UsageSnapshot {
+    const pricing = getLivePricing(model);
+    const tokens = this.totals;
+    const input = inputCost(tokens, pricing);
+    const cost = input + (tokens.textOut * pricing.textOut + tokens.audioOut * pricing.audioOut) / 1_000_000;
+
+    const alternateMode: OutputMode = outputMode === 'AUDIO' ? 'TEXT' : 'AUDIO';
+    const alternateOutTokens = alternateMode === 'TEXT'
+      ? this.modelChars / CHARS_PER_TEXT_TOKEN
+      : (this.modelChars / SPOKEN_CHARS_PER_SECOND) * AUDIO_TOKENS_PER_SECOND;
+    const alternatePrice = alternateMode === 'TEXT' ? pricing.textOut : pricing.audioOut;
+    const alternateCost = input + (alternateOutTokens * alternatePrice) / 1_000_000;
+
+    return {
+      tokens,
+      totalTokens: tokens.textIn + tokens.audioIn + tokens.videoIn + tokens.textOut + tokens.audioOut,
+      outputMode,
+      cost,
+      alternateMode,
+      alternateCost,
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { EnergyVad } from './vad';
+
+const SAMPLE_RATE = 16000;
+const BLOCK = 160; // 10ms
+
+const silence = () => new Float32Array(BLOCK);
+const tone = (amplitude: number, frequency = 200) =>
+  Float32Array.from({ length: BLOCK }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE));
+
+// Feeds `count` copies of a block and returns the detector output after each
+const feed = (vad: EnergyVad, block: Float32Array, count: number) =>
+  Array.from({ length: count }, () => vad.process(block));
+
+describe('EnergyVad', () => {
+  it('stays closed on silence', () => {
+    const vad = new EnergyVad(SAMPLE_RATE, 400);
+    expect(feed(vad, silence(), 100).some(Boolean)).toBe(false);
+  });
+
+  it('opens only once speech has lasted the onset window', () => {
+    const vad = new EnergyVad(SAMPLE_RATE, 400);
+    const results = feed(vad, tone(0.3), 5);
+    // 30ms onset: blocks at 10ms and 20ms aren't enough yet
+    expect(results).toEqual([false, false, true, true, true]);
+  });
+
+  it('ignores a click shorter than the onset window', () => {
+    const vad = new EnergyVad(SAMPLE_RATE, 400);
+    feed(vad, tone(0.3), 2);
+    expect(feed(vad, silence(), 10).some(Boolean)).toBe(false);
+  });
+
+  it('holds open for the hangover after speech ends', () => {
+    const vad = new EnergyVad(SAMPLE_RATE, 100);
+    feed(vad, tone(0.3), 5);
+    const tail = feed(vad, silence(), 15);
+    // 100ms hangover = ten 10ms blocks
+    expect(tail.slice(0, 9).every(Boolean)).toBe(true);
+    expect(tail.slice(10).some(Boolean)).toBe(false);
+  });
+
+  it('counts quiet high-frequency noise as unvoiced speech', () => {
+    const vad = new EnergyVad(SAMPLE_RATE, 400);
+    // Below the voiced threshold, but crossing zero ~4000 times a second like a fricative
+    expect(feed(vad, tone(0.015, 2000), 5).at(-1)).toBe(true);
+  });
+
+  it('lowers its threshold as the noise floor drops', () => {
+    const soft = tone(0.016);
+    expect(feed(new EnergyVad(SAMPLE_RATE, 100), soft, 5).at(-1)).toBe(false);
+
+    const vad = new EnergyVad(SAMPLE_RATE, 100);
+    feed(vad, silence(), 100); // A quiet room
+    expect(feed(vad, soft, 5).at(-1)).toBe(true);
+  });
+
+  it('closes immediately on reset', () => {
+    const vad = new EnergyVad(SAMPLE_RATE, 400);
+    feed(vad, tone(0.3), 5);
+    vad.reset();
+    expect(vad.process(silence())).toBe(false);
+  });
+});
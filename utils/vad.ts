@@ -0,0 +1,76 @@
+export const DEFAULT_VAD_HANGOVER_MS = 400;
+export const DEFAULT_VAD_PRE_ROLL_MS = 300;
+
+/**
+ * Energy + zero-crossing voice activity detector for short mono blocks.
+ *
+ * Voiced speech shows up as energy well above the (adaptive) noise floor; unvoiced
+ * consonants are quieter but cross zero in the 2-8 kHz range, so they count too.
+ * Speech must persist for a short onset window before the detector opens, and it stays
+ * open for `hangoverMs` after the last speech block so word endings aren't clipped.
+ *
+ * Self-contained on purpose (no imports or module-level references): the capture
+ * worklet embeds this class via `toString()`.
+ */
+export class EnergyVad {
+  sampleRate: number;
+  hangoverSamples: number;
+  onsetSamples: number;
+  noiseFloor: number;
+  speechRun: number;
+  hangoverLeft: number;
+  active: boolean;
+
+  constructor(sampleRate: number, hangoverMs: number) {
+    this.sampleRate = sampleRate;
+    this.hangoverSamples = Math.round(sampleRate * hangoverMs / 1000);
+    this.onsetSamples = Math.round(sampleRate * 0.03);
+    this.noiseFloor = 0.005;
+    this.speechRun = 0;
+    this.hangoverLeft = 0;
+    this.active = false;
+  }
+
+  reset() {
+    this.speechRun = 0;
+    this.hangoverLeft = 0;
+    this.active = false;
+  }
+
+  // Returns whether speech (or its hangover) is active after this block
+  process(block: Float32Array): boolean {
+    const n = block.length;
+    if (n === 0) return this.active;
+
+    let sum = 0;
+    let crossings = 0;
+    for (let i = 0; i < n; i++) {
+      sum += block[i] * block[i];
+      if (i > 0 && (block[i] >= 0) !== (block[i - 1] >= 0)) crossings++;
+    }
+    const rms = Math.sqrt(sum / n);
+    const crossingsPerSecond = crossings / n * this.sampleRate;
+
+    const threshold = Math.max(0.008, this.noiseFloor * 3);
+    const voiced = rms > threshold;
+    const unvoiced = rms > threshold * 0.5 && crossingsPerSecond > 2000 && crossingsPerSecond < 8000;
+    const isSpeech = voiced || unvoiced;
+
+    if (isSpeech) {
+      this.speechRun += n;
+      if (this.speechRun >= this.onsetSamples) {
+        this.active = true;
+        this.hangoverLeft = this.hangoverSamples;
+      }
+    } else {
+      this.speechRun = 0;
+      // Track the noise floor: drop quickly, rise slowly so speech doesn't drag it up
+      this.noiseFloor += (rms - this.noiseFloor) * (rms < this.noiseFloor ? 0.1 : 0.002);
+      if (this.active) {
+        this.hangoverLeft -= n;
+        if (this.hangoverLeft <= 0) this.active = false;
+      }
+    }
+    return this.active;
+  }
+}
@@ -0,0 +1,128 @@
+import { PcmFormat, decodePcm } from './resampler';
+import { base64ToUint8Array } from './audioUtils';
+import { SocketTts } from './socketTts';
+import type { TtsCallbacks, TtsVoice, TtsWordTimestamps } from './ttsProvider';
+
+export const DEFAULT_TTS_SERVER_URL = 'ws://localhost:8766';
+export const TTS_SERVER_FORMAT: PcmFormat = { sampleRate: 24000, encoding: 's16' };
+const VOICE_LIST_TIMEOUT_MS = 5000;
+
+/**
+ * Wire format for a self-hosted streaming TTS server (see `npm run mock:tts` for a stand-in).
+ * Client -> server is one of these JSON messages. The server answers with `TtsServerMessage`s;
+ * audio is raw PCM in the format from `config`, base64 encoded. Word timestamps (when asked for)
+ * are seconds from the start of their context's audio.
+ */
+export type TtsServerClientMessage =
+  | { type: 'config'; voice: string; sample_rate: number; encoding: 'pcm_s16le' | 'pcm_f32le'; timestamps: boolean }
+  | { type: 'text'; context_id: string; text: string; speed?: number; emotion?: string[] }
+  | { type: 'flush'; context_id: string }
+  | { type: 'cancel'; context_id: string }
+  | { type: 'list_voices' };
+
+export type TtsServerMessage =
+  | { type: 'audio'; context_id: string; data: string }
+  | { type: 'timestamps'; context_id: string; word_timestamps: TtsWordTimestamps }
+  | { type: 'done'; context_id: string }
+  | { type: 'voices'; voices: TtsVoice[] }
+  | { type: 'error'; message: string };
+
+const encodingName = (format: PcmFormat) => format.encoding === 'f32' ? 'pcm_f32le' : 'pcm_s16le';
+
+// Any server speaking the protocol above, e.g. a local Piper / Coqui wrapper
+export class WebSocketTts extends SocketTts {
+  readonly name = 'TTS Server';
+  private url: string;
+  private voice: string;
+
+  constructor(url: string, voice: string, callbacks: TtsCallbacks, outputFormat: PcmFormat = TTS_SERVER_FORMAT) {
+    super(callbacks, outputFormat);
+    this.url = url;
+    this.voice = voice;
+  }
+
+  protected socketUrl(): string {
+    return this.url;
+  }
+
+  protected openMessages(): TtsServerClientMessage[] {
+    return [{ type: 'config', voice: this.voice, sample_rate: this.outputFormat.sampleRate, encoding: encodingName(this.outputFormat), timestamps: true }];
+  }
+
+  // Delivery is only sent when it differs from neutral; servers may ignore it
+  protected textMessage(contextId: string, text: string): TtsServerClientMessage {
+    const { speed, emotions } = this.delivery;
+    const emotion = emotions.filter(Boolean);
+    return {
+      type: 'text',
+      context_id: contextId,
+      text,
+      ...(speed !== 0 ? { speed } : {}),
+      ...(emotion.length > 0 ? { emotion } : {}),
+    };
+  }
+
+  protected finishMessage(contextId: string): TtsServerClientMessage {
+    return { type: 'flush', context_id: contextId };
+  }
+
+  protected cancelMessage(contextId: string): TtsServerClientMessage {
+    return { type: 'cancel', context_id: contextId };
+  }
+
+  protected handleMessage(data: string | ArrayBuffer) {
+    if (typeof data !== 'string') return;
+    let message: TtsServerMessage;
+    try {
+      message = JSON.parse(data);
+    } catch (e) {
+      console.warn("Unparseable TTS server message", data);
+      return;
+    }
+
+    switch (message.type) {
+      case 'error':
+        this.callbacks.onError?.(message.message);
+        break;
+      case 'audio':
+        if (this.isLiveContext(message.context_id)) {
+          this.emitAudio(message.context_id, decodePcm(base64ToUint8Array(message.data), this.outputFormat.encoding));
+        }
+        break;
+      case 'timestamps':
+        if (this.isLiveContext(message.context_id)) this.emitTimestamps(message.context_id, message.word_timestamps);
+        break;
+      case 'done':
+        if (this.isLiveContext(message.context_id)) this.callbacks.onDone?.();
+        break;
+    }
+  }
+
+  // Asks over a short-lived socket of its own, so it works before connect() (settings screen)
+  listVoices(): Promise<TtsVoice[]> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.url);
+      const timeout = window.setTimeout(() => {
+        ws.close();
+        reject(new Error('TTS server did not list its voices'));
+      }, VOICE_LIST_TIMEOUT_MS);
+      const finish = (result: () => void) => {
+        clearTimeout(timeout);
+        ws.close();
+        result();
+      };
+
+      ws.onopen = () => ws.send(JSON.stringify({ type: 'list_voices' } satisfies TtsServerClientMessage));
+      ws.onerror = () => finish(() => reject(new Error(`Could not reach ${this.url}`)));
+      ws.onmessage = (event) => {
+        try {
+          const message = JSON.parse(event.data) as TtsServerMessage;
+          if (message.type === 'voices') finish(() => resolve(message.voices));
+          else if (message.type === 'error') finish(() => reject(new Error(message.message)));
+        } catch (e) {
+          // Ignore anything else
+        }
+      };
+    });
+  }
+}